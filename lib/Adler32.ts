@@ -0,0 +1,30 @@
+/**
+ * Adler-32, as used by zlib (RFC 1950)
+ */
+
+const base = 65521;
+/**
+ * Largest number of bytes, which can be summed before the 32-bit sums have to be reduced modulo the base
+ */
+const maxBlockLength = 5552;
+
+/**
+ * Calculate the Adler-32 checksum
+ * @param data Data to calculate the checksum over
+ * @param adler Adler-32 of the preceding data, to calculate the checksum incrementally
+ * @return Adler-32 checksum, as unsigned 32-bit integer
+ */
+export function adler32(data: Uint8Array, adler = 1): number {
+  let a = adler & 0xFFFF;
+  let b = adler >>> 16;
+  for (let offset = 0; offset < data.length; offset += maxBlockLength) {
+    const end = Math.min(offset + maxBlockLength, data.length);
+    for (let i = offset; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= base;
+    b %= base;
+  }
+  return ((b << 16) | a) >>> 0;
+}
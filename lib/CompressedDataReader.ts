@@ -0,0 +1,146 @@
+import type { ITokenizer } from 'strtok3';
+import type { IEntryBoundary } from './EntryBoundary.js';
+
+const chunkSize = 64 * 1024;
+
+/**
+ * Reads the compressed data of a single ZIP entry from the tokenizer, on demand.
+ * If the compressed size is unknown, the end of the compressed data is determined by the given boundary.
+ */
+export class CompressedDataReader {
+
+  private remaining: number | undefined;
+  private boundary: IEntryBoundary | undefined;
+  private done = false;
+  private skipping = false;
+  private pending: Promise<unknown> = Promise.resolve();
+  /**
+   * Number of compressed bytes read or skipped so far
+   */
+  public bytesRead = 0;
+
+  /**
+   * @param tokenizer Tokenizer, positioned at the start of the compressed data
+   * @param syncBuffer Buffer used to scan for the end of the compressed data
+   * @param size Compressed size, or the boundary determining the end of the compressed data if the size is unknown
+   * @param position Position of the compressed data; if defined, the data is read at explicit positions (requires random-access),
+   * independent of the position of the tokenizer, allowing multiple readers on the same tokenizer
+   */
+  constructor(private tokenizer: ITokenizer, private syncBuffer: Uint8Array, size: number | IEntryBoundary, private position?: number) {
+    if (typeof size === 'number') {
+      this.remaining = size;
+    } else {
+      this.boundary = size;
+    }
+  }
+
+  /**
+   * Read the next chunk of compressed data
+   * @return Chunk of compressed data, undefined if the end of the compressed data has been reached
+   */
+  public read(): Promise<Uint8Array | undefined> {
+    const chunk = this.done || this.skipping ? Promise.resolve(undefined) : this.next(true);
+    this.pending = chunk;
+    return chunk;
+  }
+
+  /**
+   * Skip the remaining compressed data, moving the tokenizer to the end of the compressed data.
+   * Any subsequent read will return the end of the compressed data.
+   */
+  public async skip(): Promise<void> {
+    this.skipping = true;
+    await this.pending.catch(() => undefined);
+    while (!this.done) {
+      await this.next(false);
+    }
+  }
+
+  /**
+   * Expose the compressed data as a stream, pulling chunks from the tokenizer on demand
+   */
+  public stream(): ReadableStream<Uint8Array> {
+    return new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        const chunk = await this.read();
+        if (chunk) {
+          controller.enqueue(chunk);
+        } else {
+          controller.close();
+        }
+      }
+    });
+  }
+
+  /**
+   * @param read If true, the chunk is read, otherwise it is skipped
+   */
+  private async next(read: boolean): Promise<Uint8Array | undefined> {
+    if (this.remaining !== undefined) {
+      const len = Math.min(this.remaining, chunkSize);
+      if (len === 0) {
+        this.done = true;
+        return;
+      }
+      this.remaining -= len;
+      return this.consume(len, read);
+    }
+
+    // Compressed size unknown, scan for the end of the compressed data
+    const len = await this.tokenizer.peekBuffer(this.syncBuffer, this.position === undefined ? {mayBeLess: true} : {mayBeLess: true, position: this.position});
+    const result = (this.boundary as IEntryBoundary).scan(this.syncBuffer.subarray(0, len), len < this.syncBuffer.length);
+    if (result.end) {
+      this.done = true;
+    }
+    return this.consume(result.length, read);
+  }
+
+  private async consume(len: number, read: boolean): Promise<Uint8Array | undefined> {
+    this.bytesRead += len;
+    if (this.position !== undefined) {
+      const position = this.position;
+      this.position += len;
+      if (!read) return;
+      const chunk = new Uint8Array(len);
+      await this.tokenizer.readBuffer(chunk, {position});
+      return chunk;
+    }
+    if (!read) {
+      await this.tokenizer.ignore(len);
+      return;
+    }
+    const chunk = new Uint8Array(len);
+    await this.tokenizer.readBuffer(chunk);
+    return chunk;
+  }
+}
+
+/**
+ * Find the first occurrence of the byte sequence
+ * @return Index of the byte sequence in the buffer, -1 if not found
+ */
+export function indexOf(buffer: Uint8Array, portion: Uint8Array): number {
+  const bufferLength = buffer.length;
+  const portionLength = portion.length;
+
+  // Return -1 if the portion is longer than the buffer
+  if (portionLength > bufferLength) return -1;
+
+  // Search for the portion in the buffer
+  for (let i = 0; i <= bufferLength - portionLength; i++) {
+    let found = true;
+
+    for (let j = 0; j < portionLength; j++) {
+      if (buffer[i + j] !== portion[j]) {
+        found = false;
+        break;
+      }
+    }
+
+    if (found) {
+      return i; // Return the starting offset
+    }
+  }
+
+  return -1; // Not found
+}
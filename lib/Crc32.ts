@@ -0,0 +1,31 @@
+/**
+ * CRC-32 (ISO 3309 / ITU-T V.42), as used by ZIP and gzip
+ */
+
+export const crc32Table = makeCrcTable();
+
+function makeCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}
+
+/**
+ * Calculate the CRC-32 checksum
+ * @param data Data to calculate the checksum over
+ * @param crc CRC-32 of the preceding data, to calculate the checksum incrementally
+ * @return CRC-32 checksum, as unsigned 32-bit integer
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = crc ^ 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    c = crc32Table[(c ^ data[i]) & 0xFF] ^ (c >>> 8);
+  }
+  return (c ^ 0xFFFFFFFF) >>> 0;
+}
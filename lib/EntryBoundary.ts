@@ -0,0 +1,147 @@
+import { UINT32_LE, UINT64_LE } from 'token-types';
+import { crc32 } from './Crc32.js';
+import { type IInflaterOptions, Inflater } from './Inflater.js';
+import { Signature } from './ZipToken.js';
+
+/**
+ * Finds the end of compressed data of unknown size, followed by a data-descriptor
+ */
+export interface IEntryBoundary {
+  /**
+   * Scan the data, directly following the data scanned so far
+   * @param data Data peeked at the current position
+   * @param endOfInput True if no data follows `data`
+   * @return Number of bytes of `data` belonging to the compressed data, and whether the end of the compressed data has been found.
+   * Bytes not belonging to the compressed data are presented again in the next call.
+   */
+  scan(data: Uint8Array, endOfInput: boolean): IBoundaryScanResult;
+}
+
+export interface IBoundaryScanResult {
+  length: number;
+  end: boolean;
+}
+
+/**
+ * Finds the end of Deflate or Deflate64 compressed data, by decoding the compressed data
+ */
+export class InflateBoundary implements IEntryBoundary {
+
+  private inflater: Inflater;
+  /**
+   * Number of bytes pushed to the inflater
+   */
+  private pushed = 0;
+
+  constructor(options?: IInflaterOptions) {
+    this.inflater = new Inflater(options);
+  }
+
+  public scan(data: Uint8Array, endOfInput: boolean): IBoundaryScanResult {
+    if (data.length === 0) {
+      // Truncated, left to the decoder to report
+      return {length: 0, end: endOfInput};
+    }
+    // The inflater may keep a reference to the data, which is a view on a reused buffer
+    this.inflater.push(data.slice());
+    while (this.inflater.inflate()) {
+      // Discard the inflated data, only the end of the compressed data is of interest
+    }
+    if (this.inflater.finished) {
+      return {length: this.inflater.bytesConsumed - this.pushed, end: true};
+    }
+    this.pushed += data.length;
+    return {length: data.length, end: false};
+  }
+}
+
+/**
+ * Signatures which may follow a data-descriptor without signature
+ */
+const followingSignatures = [
+  Signature.LocalFileHeader,
+  Signature.CentralFileHeader,
+  Signature.EndOfCentralDirectory,
+  Signature.Zip64EndOfCentralDirectory
+];
+
+/**
+ * Finds the end of the compressed data, by scanning for a data-descriptor with a compressed size matching its position.
+ * A data-descriptor without the (optional) signature is only accepted if followed by a ZIP record signature.
+ * Used if the compressed data cannot be decoded to find its end, like stored or encrypted data.
+ */
+export class DataDescriptorBoundary implements IEntryBoundary {
+
+  /**
+   * Number of bytes scanned so far
+   */
+  private scanned = 0;
+  private crc = 0;
+  private sizeLength: number;
+  /**
+   * Length of the data-descriptor without signature
+   */
+  private unsignedLength: number;
+
+  /**
+   * @param zip64 The data-descriptor uses 8-byte sizes
+   * @param stored The data is stored, unencrypted: the CRC-32 and uncompressed size of a data-descriptor candidate are verified as well
+   */
+  constructor(zip64: boolean, private stored: boolean) {
+    this.sizeLength = zip64 ? UINT64_LE.len : UINT32_LE.len;
+    this.unsignedLength = UINT32_LE.len + 2 * this.sizeLength;
+  }
+
+  public scan(data: Uint8Array, endOfInput: boolean): IBoundaryScanResult {
+    // A candidate requires the signature, data-descriptor and the following signature to be available
+    const lookahead = UINT32_LE.len + this.unsignedLength + UINT32_LE.len;
+    const last = endOfInput ? data.length - this.unsignedLength : data.length - lookahead;
+    for (let i = 0; i <= last; ++i) {
+      if (this.isDataDescriptor(data, i, true) || this.isDataDescriptor(data, i, false)) {
+        return {length: i, end: true};
+      }
+    }
+    if (endOfInput) {
+      // Truncated, left to reading the data-descriptor to report
+      return {length: data.length, end: true};
+    }
+    const length = Math.max(last + 1, 0);
+    if (this.stored) {
+      this.crc = crc32(data.subarray(0, length), this.crc);
+    }
+    this.scanned += length;
+    return {length, end: false};
+  }
+
+  /**
+   * @param data Data scanned
+   * @param offset Offset of the candidate in `data`
+   * @param signed Candidate includes the data-descriptor signature
+   */
+  private isDataDescriptor(data: Uint8Array, offset: number, signed: boolean): boolean {
+    let pos = offset;
+    if (signed) {
+      if (data.length < pos + UINT32_LE.len + this.unsignedLength || UINT32_LE.get(data, pos) !== Signature.DataDescriptor) return false;
+      pos += UINT32_LE.len;
+    }
+    const compressedSize = this.readSize(data, pos + UINT32_LE.len);
+    if (compressedSize !== this.scanned + offset) return false;
+    if (!signed) {
+      const end = pos + this.unsignedLength;
+      if (end + UINT32_LE.len <= data.length) {
+        if (!followingSignatures.includes(UINT32_LE.get(data, end))) return false;
+      } else if (end !== data.length) {
+        return false;
+      }
+    }
+    if (this.stored) {
+      const uncompressedSize = this.readSize(data, pos + UINT32_LE.len + this.sizeLength);
+      return uncompressedSize === compressedSize && UINT32_LE.get(data, pos) === crc32(data.subarray(0, offset), this.crc);
+    }
+    return true;
+  }
+
+  private readSize(data: Uint8Array, offset: number): number {
+    return this.sizeLength === UINT64_LE.len ? Number(UINT64_LE.get(data, offset)) : UINT32_LE.get(data, offset);
+  }
+}
@@ -0,0 +1,284 @@
+import type { IInflateLimits } from './InflateLimits.js';
+import type { PathIssue } from './PathSafety.js';
+
+/**
+ * Context of an error
+ */
+export interface IErrorContext {
+  /**
+   * Offset in the archive of the structure the error relates to, like a header or the data of an entry
+   */
+  offset?: number;
+  /**
+   * Name of the entry
+   */
+  filename?: string;
+  /**
+   * Underlying error
+   */
+  cause?: unknown;
+}
+
+/**
+ * Base class of the errors thrown while reading an archive
+ */
+export class ArchiveError extends Error {
+
+  /**
+   * Offset in the archive of the structure the error relates to, if known
+   */
+  public offset?: number;
+  /**
+   * Name of the entry, if the error relates to an entry
+   */
+  public readonly filename?: string;
+  /**
+   * Underlying error
+   */
+  public readonly cause?: unknown;
+
+  /**
+   * @param message Error message
+   * @param context Offset, entry name and underlying cause
+   */
+  constructor(message: string, context: IErrorContext = {}) {
+    super(message);
+    this.name = 'ArchiveError';
+    this.offset = context.offset;
+    this.filename = context.filename;
+    this.cause = context.cause;
+  }
+}
+
+/**
+ * Thrown if the ZIP archive structure is invalid, like an unexpected signature
+ */
+export class ZipFormatError extends ArchiveError {
+
+  constructor(message: string, context?: IErrorContext) {
+    super(message, context);
+    this.name = 'ZipFormatError';
+  }
+}
+
+/**
+ * Thrown if the gzip structure is invalid, like an invalid signature or a header CRC-16 mismatch
+ */
+export class GzipFormatError extends ArchiveError {
+
+  constructor(message: string, context?: IErrorContext) {
+    super(message, context);
+    this.name = 'GzipFormatError';
+  }
+}
+
+/**
+ * Thrown if the zlib structure is invalid, like an invalid header check, or a missing preset dictionary
+ */
+export class ZlibFormatError extends ArchiveError {
+
+  constructor(message: string, context?: IErrorContext) {
+    super(message, context);
+    this.name = 'ZlibFormatError';
+  }
+}
+
+/**
+ * Thrown if the tar archive structure is invalid, like a header checksum mismatch
+ */
+export class TarFormatError extends ArchiveError {
+
+  constructor(message: string, context?: IErrorContext) {
+    super(message, context);
+    this.name = 'TarFormatError';
+  }
+}
+
+/**
+ * Thrown if the end of the archive is reached unexpectedly
+ */
+export class TruncatedArchiveError extends ArchiveError {
+
+  constructor(message: string, context?: IErrorContext) {
+    super(message, context);
+    this.name = 'TruncatedArchiveError';
+  }
+}
+
+/**
+ * Thrown if the data of an entry cannot be inflated, or does not match its checksum
+ */
+export class CorruptEntryError extends ArchiveError {
+
+  declare public readonly filename: string;
+
+  /**
+   * @param message Error message
+   * @param context Offset, entry name and underlying cause
+   */
+  constructor(message: string, context: IErrorContext & {filename: string}) {
+    super(message, context);
+    this.name = 'CorruptEntryError';
+  }
+}
+
+/**
+ * Thrown if the CRC-32 of the extracted data does not match the CRC-32 stored in the archive
+ */
+export class Crc32MismatchError extends CorruptEntryError {
+
+  /**
+   * @param filename Name of the entry
+   * @param expected CRC-32 stored in the archive
+   * @param actual CRC-32 calculated over the extracted data
+   * @param offset Offset of the entry
+   */
+  constructor(filename: string, public readonly expected: number, public readonly actual: number, offset?: number) {
+    super(`CRC-32 mismatch of "${filename}": expected 0x${toHex(expected)}, calculated 0x${toHex(actual)}`, {filename, offset});
+    this.name = 'Crc32MismatchError';
+  }
+}
+
+/**
+ * Thrown if the authentication code of WinZip AES encrypted data does not match, the data has been altered
+ */
+export class AuthenticationCodeError extends CorruptEntryError {
+
+  /**
+   * @param filename Name of the entry
+   * @param offset Offset of the entry
+   */
+  constructor(filename: string, offset?: number) {
+    super(`Authentication code mismatch of "${filename}"`, {filename, offset});
+    this.name = 'AuthenticationCodeError';
+  }
+}
+
+/**
+ * Thrown if an encrypted entry is extracted, without providing a password,
+ * or if the encryption method is not supported
+ */
+export class EncryptedEntryError extends ArchiveError {
+
+  declare public readonly filename: string;
+
+  /**
+   * @param filename Name of the entry
+   * @param message Error message
+   * @param offset Offset of the entry
+   */
+  constructor(filename: string, message = `Entry "${filename}" is encrypted, a password is required`, offset?: number) {
+    super(message, {filename, offset});
+    this.name = 'EncryptedEntryError';
+  }
+}
+
+/**
+ * Thrown if the provided password does not match the password used to encrypt the entry
+ */
+export class InvalidPasswordError extends EncryptedEntryError {
+
+  /**
+   * @param filename Name of the entry
+   * @param offset Offset of the entry
+   */
+  constructor(filename: string, offset?: number) {
+    super(filename, `Invalid password for entry "${filename}"`, offset);
+    this.name = 'InvalidPasswordError';
+  }
+}
+
+/**
+ * Thrown if an entry is compressed with a compression method, for which no decoder is available
+ */
+export class UnsupportedCompressionMethodError extends ArchiveError {
+
+  declare public readonly filename: string;
+
+  /**
+   * @param compressionMethod Compression method ID
+   * @param filename Name of the entry
+   * @param offset Offset of the entry
+   */
+  constructor(public readonly compressionMethod: number, filename: string, offset?: number) {
+    super(`Unsupported ZIP compression method ${compressionMethod} of "${filename}"`, {filename, offset});
+    this.name = 'UnsupportedCompressionMethodError';
+  }
+}
+
+/**
+ * Thrown if the name of an entry is unsafe to use as a file system path, if path safety is set to 'reject'
+ */
+export class UnsafeEntryNameError extends ArchiveError {
+
+  declare public readonly filename: string;
+
+  /**
+   * @param filename Name of the entry
+   * @param issues Issues found in the entry name
+   * @param offset Offset of the file header
+   */
+  constructor(filename: string, public readonly issues: PathIssue[], offset?: number) {
+    super(`Unsafe entry name "${filename}": ${issues.join(', ')}`, {filename, offset});
+    this.name = 'UnsafeEntryNameError';
+  }
+}
+
+/**
+ * Thrown if inflating exceeds one of the configured limits, protecting against decompression bombs
+ */
+export class LimitExceededError extends ArchiveError {
+
+  /**
+   * @param limit Name of the exceeded limit
+   * @param maximum Configured value of the limit
+   * @param filename Name of the entry, if the limit applies to an entry
+   * @param offset Offset of the entry, or of the central-directory
+   */
+  constructor(public readonly limit: keyof IInflateLimits, public readonly maximum: number, filename?: string, offset?: number) {
+    super(`Limit ${limit} of ${maximum} exceeded${filename === undefined ? '' : ` by "${filename}"`}`, {filename, offset});
+    this.name = 'LimitExceededError';
+  }
+}
+
+/**
+ * Thrown if the API is used incorrectly, like reading the data of an entry twice, opening an entry which does not exist,
+ * adding to a closed writer, or providing a name which cannot be encoded
+ */
+export class ArchiveUsageError extends ArchiveError {
+
+  constructor(message: string, context?: IErrorContext) {
+    super(message, context);
+    this.name = 'ArchiveUsageError';
+  }
+}
+
+/**
+ * Check if the error is thrown by the tokenizer, reading beyond the end of the input
+ */
+export function isEndOfStreamError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'EndOfStreamError';
+}
+
+/**
+ * Convert an error thrown while reading or inflating the data of an entry to an `ArchiveError`:
+ * reading beyond the end of the input results in a `TruncatedArchiveError`, any other error in a `CorruptEntryError`.
+ * An `ArchiveError` is returned as is, completed with the offset of the entry.
+ * @param err Error thrown
+ * @param context Offset and name of the entry
+ */
+export function toEntryError(err: unknown, context: IErrorContext & {filename: string}): ArchiveError {
+  if (err instanceof ArchiveError) {
+    err.offset ??= context.offset;
+    return err;
+  }
+  if (isEndOfStreamError(err)) {
+    return new TruncatedArchiveError(`Unexpected end of archive, reading the data of "${context.filename}"`, {...context, cause: err});
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  return new CorruptEntryError(`Failed to inflate "${context.filename}": ${message}`, {...context, cause: err});
+}
+
+function toHex(value: number): string {
+  return value.toString(16).padStart(8, '0');
+}
@@ -0,0 +1,248 @@
+/**
+ * Extra field decoding
+ * Ref https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT, section 4.5 & 4.6
+ * Ref Info-ZIP extra field descriptions (proginfo/extrafld.txt)
+ */
+
+import {UINT16_LE, UINT32_LE, UINT64_LE} from "token-types";
+import {
+  applyZip64ExtendedInformation,
+  ExtraFieldId,
+  type IFileHeader,
+  type ILocalFileHeader,
+  type IWinZipAesExtraField,
+  WinZipAesExtraFieldToken
+} from "./ZipToken.js";
+
+/**
+ * Raw extra field block
+ */
+export interface IExtraFieldBlock {
+  /**
+   * Header ID
+   */
+  id: number;
+  data: Uint8Array;
+}
+
+/**
+ * ZIP64 extended information (0x0001), only the values present in the extra field block
+ */
+export interface IZip64ExtendedInformation {
+  uncompressedSize?: number;
+  compressedSize?: number;
+  relativeOffsetOfLocalHeader?: number;
+  diskNumberStart?: number;
+}
+
+/**
+ * Extended timestamp (0x5455), in UTC.
+ * The central-directory only provides the modification time.
+ */
+export interface IExtendedTimestamp {
+  modified?: Date;
+  accessed?: Date;
+  created?: Date;
+}
+
+/**
+ * NTFS timestamps (0x000a), with a resolution of 100 nanoseconds, truncated to milliseconds
+ */
+export interface INtfsTimestamps {
+  modified: Date;
+  accessed: Date;
+  created: Date;
+}
+
+/**
+ * Info-ZIP Unix UID/GID (0x7875)
+ */
+export interface IUnixOwnership {
+  uid: number;
+  gid: number;
+}
+
+/**
+ * Info-ZIP Unicode Path (0x7075)
+ */
+export interface IUnicodePath {
+  version: number;
+  /**
+   * CRC-32 of the filename in the header, used to verify the Unicode path still corresponds to the filename
+   */
+  crc32: number;
+  /**
+   * UTF-8 encoded path
+   */
+  path: string;
+}
+
+export interface IExtraFields {
+  zip64?: IZip64ExtendedInformation;
+  extendedTimestamp?: IExtendedTimestamp;
+  ntfs?: INtfsTimestamps;
+  unix?: IUnixOwnership;
+  unicodePath?: IUnicodePath;
+  aes?: IWinZipAesExtraField;
+  /**
+   * Extra field blocks which are not decoded
+   */
+  unknown: IExtraFieldBlock[];
+}
+
+/**
+ * Difference between the Windows FILETIME epoch (1601-01-01) and the Unix epoch, in milliseconds
+ */
+const fileTimeEpochOffset = 11644473600000;
+
+/**
+ * Split the extra field into blocks
+ * Each block consists of a 2-byte header ID, a 2-byte data size, followed by the data
+ * @param extraField Extra field data
+ */
+export function splitExtraField(extraField: Uint8Array): IExtraFieldBlock[] {
+  const blocks: IExtraFieldBlock[] = [];
+  let offset = 0;
+  while (offset + 4 <= extraField.length) {
+    const id = UINT16_LE.get(extraField, offset);
+    const size = UINT16_LE.get(extraField, offset + 2);
+    offset += 4;
+    blocks.push({id, data: extraField.subarray(offset, offset + size)});
+    offset += size;
+  }
+  return blocks;
+}
+
+/**
+ * Decode the extra field, and apply the ZIP64 extended information and WinZip AES extra field to the header
+ * @param header Local or central directory file header
+ * @param extraField Extra field data
+ */
+export function applyExtraField(header: ILocalFileHeader | IFileHeader, extraField: Uint8Array): void {
+  const extraFields: IExtraFields = {unknown: []};
+  for (const block of splitExtraField(extraField)) {
+    switch (block.id) {
+      case ExtraFieldId.Zip64:
+        extraFields.zip64 = applyZip64ExtendedInformation(header, block.data);
+        break;
+      case ExtraFieldId.ExtendedTimestamp:
+        extraFields.extendedTimestamp = decodeExtendedTimestamp(block.data);
+        break;
+      case ExtraFieldId.Ntfs:
+        extraFields.ntfs = decodeNtfsTimestamps(block.data);
+        break;
+      case ExtraFieldId.InfoZipUnix:
+        extraFields.unix = decodeUnixOwnership(block.data);
+        break;
+      case ExtraFieldId.UnicodePath:
+        extraFields.unicodePath = decodeUnicodePath(block.data);
+        break;
+      case ExtraFieldId.WinZipAes:
+        if (block.data.length >= WinZipAesExtraFieldToken.len) {
+          header.aes = extraFields.aes = WinZipAesExtraFieldToken.get(block.data, 0);
+        }
+        break;
+      default:
+        extraFields.unknown.push(block);
+    }
+  }
+  header.extraFields = extraFields;
+}
+
+/**
+ * Extended timestamp (0x5455)
+ *  flags                          1 byte; bit 0: modification time, bit 1: access time, bit 2: creation time
+ *  modification time              4 bytes (signed, seconds since the Unix epoch)
+ *  access time                    4 bytes
+ *  creation time                  4 bytes
+ * The times are only present if the corresponding flag is set, the central-directory only holds the modification time.
+ */
+function decodeExtendedTimestamp(data: Uint8Array): IExtendedTimestamp | undefined {
+  if (data.length < 1) return;
+  const flags = data[0];
+  const timestamp: IExtendedTimestamp = {};
+  let offset = 1;
+  const readTime = (): Date | undefined => {
+    if (offset + 4 > data.length) return;
+    const time = UINT32_LE.get(data, offset) | 0;
+    offset += 4;
+    return new Date(time * 1000);
+  };
+  if (flags & 0x01) timestamp.modified = readTime();
+  if (flags & 0x02) timestamp.accessed = readTime();
+  if (flags & 0x04) timestamp.created = readTime();
+  return timestamp;
+}
+
+/**
+ * NTFS (0x000a)
+ *  reserved                       4 bytes
+ *  attributes                     variable, consisting of: tag (2 bytes), size (2 bytes) & data
+ * Attribute tag 0x0001 holds the modification, access and creation time, each as 8-byte Windows FILETIME
+ */
+function decodeNtfsTimestamps(data: Uint8Array): INtfsTimestamps | undefined {
+  let offset = 4;
+  while (offset + 4 <= data.length) {
+    const tag = UINT16_LE.get(data, offset);
+    const size = UINT16_LE.get(data, offset + 2);
+    offset += 4;
+    if (tag === 0x0001 && size >= 24 && offset + 24 <= data.length) {
+      return {
+        modified: fileTimeToDate(UINT64_LE.get(data, offset)),
+        accessed: fileTimeToDate(UINT64_LE.get(data, offset + 8)),
+        created: fileTimeToDate(UINT64_LE.get(data, offset + 16))
+      };
+    }
+    offset += size;
+  }
+}
+
+/**
+ * Convert a Windows FILETIME (100 nanosecond intervals since 1601-01-01) to a Date
+ */
+function fileTimeToDate(fileTime: bigint): Date {
+  return new Date(Number(fileTime / BigInt(10000)) - fileTimeEpochOffset);
+}
+
+/**
+ * Info-ZIP Unix UID/GID (0x7875)
+ *  version                        1 byte (1)
+ *  UID size                       1 byte
+ *  UID                            variable, little-endian
+ *  GID size                       1 byte
+ *  GID                            variable, little-endian
+ */
+function decodeUnixOwnership(data: Uint8Array): IUnixOwnership | undefined {
+  if (data.length < 1 || data[0] !== 1) return;
+  let offset = 1;
+  const readId = (): number | undefined => {
+    if (offset >= data.length) return;
+    const size = data[offset++];
+    if (offset + size > data.length) return;
+    let value = 0;
+    for (let i = size - 1; i >= 0; --i) {
+      value = value * 256 + data[offset + i];
+    }
+    offset += size;
+    return value;
+  };
+  const uid = readId();
+  const gid = readId();
+  if (uid === undefined || gid === undefined) return;
+  return {uid, gid};
+}
+
+/**
+ * Info-ZIP Unicode Path (0x7075)
+ *  version                        1 byte (1)
+ *  name CRC-32                    4 bytes, CRC-32 of the filename in the header
+ *  Unicode name                   variable, UTF-8 encoded
+ */
+function decodeUnicodePath(data: Uint8Array): IUnicodePath | undefined {
+  if (data.length < 5) return;
+  return {
+    version: data[0],
+    crc32: UINT32_LE.get(data, 1),
+    path: new TextDecoder('utf-8').decode(data.subarray(5))
+  };
+}
@@ -1,27 +1,338 @@
 import type { ITokenizer } from 'strtok3';
+import { UINT16_LE } from 'token-types';
+import { crc32 } from './Crc32.js';
+import { CorruptEntryError, Crc32MismatchError, GzipFormatError, isEndOfStreamError, toEntryError, TruncatedArchiveError } from './Errors.js';
+import {
+  GzipCompressionMethodDeflate,
+  GzipFixedHeaderToken,
+  GzipFlag,
+  GzipSignature,
+  GzipTrailerToken,
+  type IGzipHeader,
+  type IGzipMember,
+  type IGzipTrailer,
+  parseGzipExtraField
+} from './GzipToken.js';
+import { type InflateEngine, isNativeEngine } from './Inflater.js';
+import { type EntryLimiter, type IInflateLimits, InflateLimiter } from './InflateLimits.js';
+import { type IInflatedMember, inflateMemberFromTokenizer } from './TokenizerInflate.js';
+import { errorToIssue, type IGzipVerificationReport } from './Verification.js';
+
+/**
+ * Maximum number of bytes peeked at once, while searching for the end of a zero-terminated string
+ */
+const stringChunkSize = 256;
+
+/**
+ * Number of compressed bytes peeked at once
+ */
+const compressedChunkSize = 64 * 1024;
+
+export interface IGzipHandlerOptions {
+  /**
+   * Only inflate the first member, ignoring any subsequent (concatenated) members, default `false`
+   */
+  firstMemberOnly?: boolean;
+  /**
+   * Verify the CRC-32 and the size of the inflated data against the trailer of each member, default `true`.
+   * A CRC-32 mismatch results in a `Crc32MismatchError`.
+   */
+  verifyCrc?: boolean;
+  /**
+   * Limits protecting against decompression bombs, no limits apply by default.
+   * Each member counts as an entry, `maxCentralDirectorySize` does not apply.
+   * Exceeding a limit stops inflating, with a `LimitExceededError`.
+   */
+  limits?: IInflateLimits;
+  /**
+   * Engine inflating the members, default 'auto'.
+   * With 'auto' or 'native', the native `DecompressionStream` inflates the members of which the compressed size is known
+   * without decoding: BGZF (bgzip) members, and with random-access, the last member.
+   * The built-in inflater is used to find the exact end of the other members.
+   */
+  inflater?: InflateEngine;
+}
 
 export class GzipHandler {
   private tokenizer: ITokenizer;
+  private options: IGzipHandlerOptions;
+  private header?: Promise<IGzipHeader>;
+  private firstMemberOffset = 0;
+  /**
+   * CRC-32 over the header data read so far
+   */
+  private headerCrc = 0;
+  /**
+   * Set once the remaining input turned out to be more than a single member,
+   * after which the boundaries of the subsequent members are found by the built-in inflater
+   */
+  private multiMember = false;
+  /**
+   * Members inflated so far, including the member boundaries and trailer.
+   * A member is added once its trailer has been read and verified.
+   */
+  public readonly members: IGzipMember[] = [];
 
-  constructor(tokenizer: ITokenizer) {
+  constructor(tokenizer: ITokenizer, options: IGzipHandlerOptions = {}) {
     this.tokenizer = tokenizer;
+    this.options = options;
   }
 
+  /**
+   * Read the header of the first gzip member, without inflating the compressed data.
+   * The header is read once, a subsequent call to `inflate()` still returns the complete inflated data.
+   */
+  public readHeader(): Promise<IGzipHeader> {
+    if (!this.header) {
+      this.firstMemberOffset = this.tokenizer.position;
+      this.header = this.parseHeader();
+    }
+    return this.header;
+  }
+
+  /**
+   * Inflate the gzip data.
+   * Concatenated members are inflated one after the other, as a single stream of data.
+   * Trailing data, which is not a gzip member, is ignored.
+   */
   public inflate(): ReadableStream<Uint8Array> {
-    const tokenizer = this.tokenizer;
+    const chunks = this.inflateMembers();
 
     return new ReadableStream<Uint8Array>({
       async pull(controller) {
-        const buffer = new Uint8Array(1024);
-        const size = await tokenizer.readBuffer(buffer, { mayBeLess: true });
-
-        if (size === 0) {
+        const result = await chunks.next();
+        if (result.done) {
           controller.close();
-          return;
+        } else {
+          controller.enqueue(result.value);
+        }
+      },
+      async cancel() {
+        await chunks.return();
+      }
+    });
+  }
+
+  /**
+   * Verify the integrity of the gzip data, inflating all members without returning the inflated data.
+   * The CRC-32 and size of each member are verified, regardless of the `verifyCrc` option.
+   * Issues found are reported, errors other than an `ArchiveError` are thrown.
+   * @return Verification report
+   */
+  public async verify(): Promise<IGzipVerificationReport> {
+    const report: IGzipVerificationReport = {
+      valid: false,
+      members: this.members,
+      appendedDataLength: 0,
+      issues: []
+    };
+    try {
+      const chunks = this.inflateMembers(true);
+      while (!(await chunks.next()).done) {
+        // Discard the inflated data
+      }
+      const offset = this.tokenizer.position;
+      report.appendedDataLength = await this.skipRemaining();
+      if (report.appendedDataLength > 0) {
+        report.issues.push({type: 'appended-data', message: `${report.appendedDataLength} bytes follow the last gzip member`, offset});
+      }
+    } catch (err) {
+      report.issues.push(errorToIssue(err));
+    }
+    report.valid = report.issues.length === 0;
+    return report;
+  }
+
+  /**
+   * @param verifyCrc Verify the CRC-32 and size of each member, default according to the `verifyCrc` option
+   */
+  private async *inflateMembers(verifyCrc = this.options.verifyCrc ?? true): AsyncGenerator<Uint8Array, void> {
+    let header = await this.readHeader();
+    let offset = this.firstMemberOffset;
+    const limiter = this.options.limits ? new InflateLimiter(this.options.limits) : undefined;
+    for (;;) {
+      limiter?.countEntry();
+      const entryLimiter = limiter?.trackEntry(header.filename ?? '');
+      this.members.push(yield* this.inflateMember(header, offset, verifyCrc, entryLimiter));
+      if (this.options.firstMemberOnly) return;
+
+      // Check for a subsequent member
+      const signature = new Uint8Array(UINT16_LE.len);
+      const len = await this.tokenizer.peekBuffer(signature, {mayBeLess: true});
+      if (len < signature.length || UINT16_LE.get(signature, 0) !== GzipSignature) return;
+      offset = this.tokenizer.position;
+      header = await this.parseHeader();
+    }
+  }
+
+  /**
+   * Inflate the compressed data and read the trailer of a member, the tokenizer is positioned at the compressed data.
+   * The selected inflate engine is used, if the compressed size can be determined without decoding the compressed data,
+   * confirmed by the trailer. Otherwise the built-in inflater finds the exact end of the compressed data.
+   * @return Inflated member
+   */
+  private async *inflateMember(header: IGzipHeader, offset: number, verifyCrc: boolean, entryLimiter?: EntryLimiter): AsyncGenerator<Uint8Array, IGzipMember> {
+    const context = {filename: header.filename ?? '', offset};
+    const compressedOffset = this.tokenizer.position;
+    const compressedSize = this.getCompressedSize(header, offset, compressedOffset);
+    // The CRC-32 confirms a known compressed size
+    const calculateCrc = verifyCrc || compressedSize !== undefined;
+    let crc = 0;
+    let size = 0;
+    let member: IInflatedMember<IGzipTrailer>;
+    try {
+      member = yield* inflateMemberFromTokenizer(this.tokenizer, {
+        compressedSize,
+        engine: this.options.inflater,
+        makeTruncatedError: () => new TruncatedArchiveError('Unexpected end of gzip member', context),
+        entryLimiter,
+        onInflated: chunk => {
+          if (calculateCrc) crc = crc32(chunk, crc);
+          size += chunk.length;
+        },
+        readTrailer: () => this.tokenizer.readToken(GzipTrailerToken),
+        confirms: trailer => trailer.crc32 === crc && trailer.size === size % 0x100000000
+      });
+      if (member.retried) {
+        this.multiMember = true;
+      }
+      const trailer = member.trailer;
+      if (verifyCrc) {
+        if (trailer.crc32 !== crc) {
+          throw new Crc32MismatchError(context.filename, trailer.crc32, crc, offset);
+        }
+        if (trailer.size !== size % 0x100000000) {
+          throw new CorruptEntryError(`Gzip member size mismatch: expected ${trailer.size}, inflated ${size % 0x100000000} bytes`, context);
         }
+      }
+    } catch (err) {
+      throw toEntryError(err, context);
+    }
+    return {
+      header,
+      offset,
+      compressedOffset,
+      compressedSize: member.compressedSize,
+      length: this.tokenizer.position - offset,
+      ...member.trailer
+    };
+  }
+
+  /**
+   * Determine the compressed size of a member, without decoding the compressed data:
+   * the block size of a BGZF (bgzip) member, or the remaining input, assuming the member is the last member.
+   * @return Compressed size, undefined if it cannot be determined, or if the built-in inflater is selected
+   */
+  private getCompressedSize(header: IGzipHeader, offset: number, compressedOffset: number): number | undefined {
+    if (!isNativeEngine(this.options.inflater)) return;
+    const blockSize = header.extra?.find(subfield => subfield.id === 'BC' && subfield.data.length === UINT16_LE.len);
+    let end: number | undefined;
+    if (blockSize) {
+      // BSIZE: total block size minus 1
+      end = offset + UINT16_LE.get(blockSize.data, 0) + 1;
+    } else if (!this.multiMember && this.tokenizer.supportsRandomAccess()) {
+      end = this.tokenizer.fileInfo.size;
+    }
+    if (end !== undefined && end - GzipTrailerToken.len >= compressedOffset) {
+      return end - GzipTrailerToken.len - compressedOffset;
+    }
+  }
+
+  private async parseHeader(): Promise<IGzipHeader> {
+    const offset = this.tokenizer.position;
+    try {
+      return await this.parseHeaderAt(offset);
+    } catch (err) {
+      if (isEndOfStreamError(err)) {
+        throw new TruncatedArchiveError('Unexpected end of gzip header', {offset, cause: err});
+      }
+      throw err;
+    }
+  }
 
-        controller.enqueue(buffer.subarray(0, size));
+  /**
+   * @param offset Position of the header, which should be the current tokenizer position
+   */
+  private async parseHeaderAt(offset: number): Promise<IGzipHeader> {
+    this.headerCrc = 0;
+    const fixedHeader = GzipFixedHeaderToken.get(await this.read(GzipFixedHeaderToken.len), 0);
+    if (fixedHeader.signature !== GzipSignature) {
+      throw new GzipFormatError(`Invalid gzip signature: 0x${fixedHeader.signature.toString(16)}`, {offset});
+    }
+    if (fixedHeader.compressionMethod !== GzipCompressionMethodDeflate) {
+      throw new GzipFormatError(`Unsupported gzip compression method: ${fixedHeader.compressionMethod}`, {offset});
+    }
+    const header: IGzipHeader = {
+      ...fixedHeader,
+      text: (fixedHeader.flags & GzipFlag.FTEXT) !== 0,
+      headerCrc: (fixedHeader.flags & GzipFlag.FHCRC) !== 0
+    };
+    if (fixedHeader.flags & GzipFlag.FEXTRA) {
+      const extraLength = UINT16_LE.get(await this.read(UINT16_LE.len), 0);
+      header.extra = parseGzipExtraField(await this.read(extraLength));
+    }
+    if (fixedHeader.flags & GzipFlag.FNAME) {
+      header.filename = await this.readZeroTerminatedString(offset);
+    }
+    if (fixedHeader.flags & GzipFlag.FCOMMENT) {
+      header.comment = await this.readZeroTerminatedString(offset);
+    }
+    if (header.headerCrc) {
+      // CRC-16: the two least significant bytes of the CRC-32 of all header bytes preceding the CRC-16
+      const expected = this.headerCrc & 0xFFFF;
+      const headerCrc16 = UINT16_LE.get(await this.read(UINT16_LE.len), 0);
+      if (headerCrc16 !== expected) {
+        throw new GzipFormatError(`Gzip header CRC-16 mismatch: expected 0x${expected.toString(16)}, got 0x${headerCrc16.toString(16)}`, {offset});
       }
-    }).pipeThrough(new DecompressionStream("gzip") as unknown as ReadableWritablePair<Uint8Array, Uint8Array>);
+    }
+    return header;
+  }
+
+  /**
+   * Read a zero-terminated ISO 8859-1 (LATIN-1) string
+   * @param offset Position of the header
+   */
+  private async readZeroTerminatedString(offset: number): Promise<string> {
+    let str = '';
+    const buffer = new Uint8Array(stringChunkSize);
+    for (;;) {
+      const len = await this.tokenizer.peekBuffer(buffer, {mayBeLess: true});
+      if (len === 0) {
+        throw new TruncatedArchiveError('Unexpected end of gzip header', {offset});
+      }
+      const terminator = buffer.subarray(0, len).indexOf(0);
+      const data = await this.read(terminator === -1 ? len : terminator + 1);
+      for (let i = 0; i < (terminator === -1 ? len : terminator); ++i) {
+        str += String.fromCharCode(data[i]);
+      }
+      if (terminator !== -1) {
+        return str;
+      }
+    }
+  }
+
+  /**
+   * Skip the remaining input
+   * @return Number of bytes skipped
+   */
+  private async skipRemaining(): Promise<number> {
+    const buffer = new Uint8Array(compressedChunkSize);
+    let skipped = 0;
+    for (;;) {
+      const len = await this.tokenizer.peekBuffer(buffer, {mayBeLess: true});
+      if (len === 0) return skipped;
+      await this.tokenizer.ignore(len);
+      skipped += len;
+    }
+  }
+
+  /**
+   * Read header data from the tokenizer, updating the header CRC
+   */
+  private async read(len: number): Promise<Uint8Array> {
+    const data = new Uint8Array(len);
+    await this.tokenizer.readBuffer(data);
+    this.headerCrc = crc32(data, this.headerCrc);
+    return data;
   }
 }
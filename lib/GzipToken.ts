@@ -0,0 +1,208 @@
+/**
+ * Ref https://www.rfc-editor.org/rfc/rfc1952
+ */
+
+import type {IToken} from "strtok3";
+import {UINT16_LE, UINT32_LE} from "token-types";
+
+/**
+ * ID1 & ID2, read as 16-bit little-endian integer
+ */
+export const GzipSignature = 0x8b1f;
+
+/**
+ * Compression method (CM) deflate
+ */
+export const GzipCompressionMethodDeflate = 8;
+
+/**
+ * Bits of the member flags (FLG)
+ */
+export const GzipFlag = {
+  FTEXT: 0x01,
+  FHCRC: 0x02,
+  FEXTRA: 0x04,
+  FNAME: 0x08,
+  FCOMMENT: 0x10
+}
+
+/**
+ * Fixed part of the gzip member header
+ */
+export interface IGzipFixedHeader {
+  signature: number;
+  /**
+   * Compression method (CM), 8 = deflate
+   */
+  compressionMethod: number;
+  /**
+   * Member flags (FLG)
+   */
+  flags: number;
+  /**
+   * Modification time (MTIME) of the original file, in seconds since the Unix epoch, 0 if not available
+   */
+  mtime: number;
+  /**
+   * Extra flags (XFL): 2 = maximum compression, 4 = fastest compression
+   */
+  extraFlags: number;
+  /**
+   * Operating system (OS) on which the compression took place, e.g. 0 = FAT, 3 = Unix, 255 = unknown
+   */
+  os: number;
+}
+
+/**
+ * Subfield of the extra field (FEXTRA)
+ */
+export interface IGzipExtraSubfield {
+  /**
+   * Subfield ID, the 2 characters SI1 & SI2
+   */
+  id: string;
+  data: Uint8Array;
+}
+
+export interface IGzipHeader extends IGzipFixedHeader {
+  /**
+   * FTEXT: the file is probably ASCII text
+   */
+  text: boolean;
+  /**
+   * FHCRC: the header is protected by a CRC-16
+   */
+  headerCrc: boolean;
+  /**
+   * Subfields of the extra field, undefined if FEXTRA is not set
+   */
+  extra?: IGzipExtraSubfield[];
+  /**
+   * Original file name (FNAME), undefined if not present
+   */
+  filename?: string;
+  /**
+   * File comment (FCOMMENT), undefined if not present
+   */
+  comment?: string;
+}
+
+/**
+ * Fixed gzip member header
+ * Offset | Bytes| Description
+ * -------|------+-------------------------------------------------------------------
+ *      0 |    2 | ID1 (0x1f) & ID2 (0x8b)
+ *      2 |    1 | Compression method (CM)
+ *      3 |    1 | Flags (FLG)
+ *      4 |    4 | Modification time (MTIME)
+ *      8 |    1 | Extra flags (XFL)
+ *      9 |    1 | Operating system (OS)
+ */
+export const GzipFixedHeaderToken: IToken<IGzipFixedHeader> = {
+  get(array: Uint8Array): IGzipFixedHeader {
+    return {
+      signature: UINT16_LE.get(array, 0),
+      compressionMethod: array[2],
+      flags: array[3],
+      mtime: UINT32_LE.get(array, 4),
+      extraFlags: array[8],
+      os: array[9]
+    };
+  },
+  put(array: Uint8Array, offset: number, header: IGzipFixedHeader): number {
+    UINT16_LE.put(array, offset, header.signature);
+    array[offset + 2] = header.compressionMethod;
+    array[offset + 3] = header.flags;
+    UINT32_LE.put(array, offset + 4, header.mtime);
+    array[offset + 8] = header.extraFlags;
+    array[offset + 9] = header.os;
+    return offset + 10;
+  },
+  len: 10
+};
+
+/**
+ * Parse the subfields of the extra field (FEXTRA)
+ * Each subfield consists of SI1, SI2, a 16-bit little-endian length (LEN) and LEN bytes of data.
+ */
+export function parseGzipExtraField(extraField: Uint8Array): IGzipExtraSubfield[] {
+  const subfields: IGzipExtraSubfield[] = [];
+  let offset = 0;
+  while (offset + 4 <= extraField.length) {
+    const len = UINT16_LE.get(extraField, offset + 2);
+    subfields.push({
+      id: String.fromCharCode(extraField[offset], extraField[offset + 1]),
+      data: extraField.subarray(offset + 4, offset + 4 + len)
+    });
+    offset += 4 + len;
+  }
+  return subfields;
+}
+
+/**
+ * Encode the subfields of the extra field (FEXTRA), the counterpart of `parseGzipExtraField()`
+ */
+export function encodeGzipExtraField(subfields: IGzipExtraSubfield[]): Uint8Array {
+  const extraField = new Uint8Array(subfields.reduce((length, subfield) => length + 4 + subfield.data.length, 0));
+  let offset = 0;
+  for (const subfield of subfields) {
+    extraField[offset] = subfield.id.charCodeAt(0);
+    extraField[offset + 1] = subfield.id.charCodeAt(1);
+    UINT16_LE.put(extraField, offset + 2, subfield.data.length);
+    extraField.set(subfield.data, offset + 4);
+    offset += 4 + subfield.data.length;
+  }
+  return extraField;
+}
+
+export interface IGzipTrailer {
+  /**
+   * CRC-32 of the uncompressed data
+   */
+  crc32: number;
+  /**
+   * Size of the uncompressed data, modulo 2^32
+   */
+  size: number;
+}
+
+/**
+ * Gzip member trailer
+ * Offset | Bytes| Description
+ * -------|------+-------------------------------------------------------------------
+ *      0 |    4 | CRC-32 of the uncompressed data (CRC32)
+ *      4 |    4 | Size of the uncompressed data, modulo 2^32 (ISIZE)
+ */
+export const GzipTrailerToken: IToken<IGzipTrailer> = {
+  get(array: Uint8Array): IGzipTrailer {
+    return {
+      crc32: UINT32_LE.get(array, 0),
+      size: UINT32_LE.get(array, 4)
+    };
+  },
+  put(array: Uint8Array, offset: number, trailer: IGzipTrailer): number {
+    UINT32_LE.put(array, offset, trailer.crc32);
+    return UINT32_LE.put(array, offset + 4, trailer.size);
+  },
+  len: 8
+};
+
+/**
+ * Gzip member, a gzip file consists of one or more members
+ */
+export interface IGzipMember extends IGzipTrailer {
+  header: IGzipHeader;
+  /**
+   * Position of the member in the tokenizer
+   */
+  offset: number;
+  /**
+   * Position of the compressed (deflate) data in the tokenizer
+   */
+  compressedOffset: number;
+  compressedSize: number;
+  /**
+   * Total length of the member, including header and trailer
+   */
+  length: number;
+}
@@ -0,0 +1,165 @@
+import { UINT16_LE } from 'token-types';
+import { crc32 } from './Crc32.js';
+import { ArchiveUsageError } from './Errors.js';
+import {
+  encodeGzipExtraField,
+  GzipCompressionMethodDeflate,
+  GzipFixedHeaderToken,
+  GzipFlag,
+  GzipSignature,
+  GzipTrailerToken,
+  type IGzipExtraSubfield
+} from './GzipToken.js';
+import { Crc32Counter, makeDeflateRawStream, OutputWriter, toStream, type WriterData } from './OutputWriter.js';
+
+/**
+ * Operating system (OS) unknown
+ */
+const osUnknown = 255;
+
+export interface IGzipMemberOptions {
+  /**
+   * Original file name (FNAME), ISO 8859-1 (LATIN-1) encoded
+   */
+  filename?: string;
+  /**
+   * File comment (FCOMMENT), ISO 8859-1 (LATIN-1) encoded
+   */
+  comment?: string;
+  /**
+   * Modification time (MTIME) of the original file, as `Date` or in seconds since the Unix epoch, default 0 (not available).
+   * Times before 1970 or after 2106 cannot be encoded, resulting in an `ArchiveUsageError`.
+   */
+  mtime?: Date | number;
+  /**
+   * Subfields of the extra field (FEXTRA)
+   */
+  extra?: IGzipExtraSubfield[];
+  /**
+   * FTEXT: the data is probably ASCII text, default `false`
+   */
+  text?: boolean;
+  /**
+   * FHCRC: protect the header with a CRC-16, default `false`
+   */
+  headerCrc?: boolean;
+}
+
+/**
+ * Compresses data to gzip (RFC 1952), streaming the output to `readable`.
+ * Each member is compressed separately; multiple members are concatenated, as a multi-member gzip file.
+ */
+export class GzipWriter {
+
+  /**
+   * The gzip output, which should be consumed while adding members
+   */
+  public readonly readable: ReadableStream<Uint8Array>;
+
+  private output = new OutputWriter();
+  private closed = false;
+
+  constructor() {
+    this.readable = this.output.readable;
+  }
+
+  /**
+   * Add a gzip member, compressing the data
+   * @param data Data to compress; a string is UTF-8 encoded
+   * @param options Header fields of the member
+   */
+  public addMember(data: WriterData, options: IGzipMemberOptions = {}): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new ArchiveUsageError('Cannot add a member to a closed gzip writer'));
+    }
+    return this.output.enqueue(() => this.writeMember(data, options));
+  }
+
+  /**
+   * Close the output
+   */
+  public close(): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new ArchiveUsageError('Gzip writer is already closed'));
+    }
+    this.closed = true;
+    return this.output.enqueue(() => this.output.close());
+  }
+
+  private async writeMember(data: WriterData, options: IGzipMemberOptions): Promise<void> {
+    await this.output.write(encodeHeader(options));
+    const counter = new Crc32Counter();
+    await this.output.writeStream(toStream(data).pipeThrough(counter.stream).pipeThrough(makeDeflateRawStream()));
+    const trailer = new Uint8Array(GzipTrailerToken.len);
+    GzipTrailerToken.put(trailer, 0, {crc32: counter.crc32, size: counter.size % 0x100000000});
+    await this.output.write(trailer);
+  }
+}
+
+/**
+ * Encode the gzip member header
+ */
+function encodeHeader(options: IGzipMemberOptions): Uint8Array {
+  let flags = 0;
+  const fields: Uint8Array[] = [];
+  if (options.text) {
+    flags |= GzipFlag.FTEXT;
+  }
+  if (options.extra) {
+    flags |= GzipFlag.FEXTRA;
+    const extraField = encodeGzipExtraField(options.extra);
+    const extraLength = new Uint8Array(UINT16_LE.len);
+    UINT16_LE.put(extraLength, 0, extraField.length);
+    fields.push(extraLength, extraField);
+  }
+  if (options.filename !== undefined) {
+    flags |= GzipFlag.FNAME;
+    fields.push(encodeZeroTerminatedString(options.filename, 'filename'));
+  }
+  if (options.comment !== undefined) {
+    flags |= GzipFlag.FCOMMENT;
+    fields.push(encodeZeroTerminatedString(options.comment, 'comment'));
+  }
+  if (options.headerCrc) {
+    flags |= GzipFlag.FHCRC;
+  }
+  const mtime = options.mtime instanceof Date ? Math.floor(options.mtime.getTime() / 1000) : options.mtime ?? 0;
+  if (!Number.isInteger(mtime) || mtime < 0 || mtime > 0xFFFFFFFF) {
+    throw new ArchiveUsageError(`Gzip mtime ${mtime} is out of range of the 32-bit MTIME field`);
+  }
+
+  const length = GzipFixedHeaderToken.len + fields.reduce((sum, field) => sum + field.length, 0) + (options.headerCrc ? UINT16_LE.len : 0);
+  const header = new Uint8Array(length);
+  let offset = GzipFixedHeaderToken.put(header, 0, {
+    signature: GzipSignature,
+    compressionMethod: GzipCompressionMethodDeflate,
+    flags,
+    mtime,
+    extraFlags: 0,
+    os: osUnknown
+  });
+  for (const field of fields) {
+    header.set(field, offset);
+    offset += field.length;
+  }
+  if (options.headerCrc) {
+    // CRC-16: the two least significant bytes of the CRC-32 of all header bytes preceding the CRC-16
+    UINT16_LE.put(header, offset, crc32(header.subarray(0, offset)) & 0xFFFF);
+  }
+  return header;
+}
+
+/**
+ * Encode a zero-terminated ISO 8859-1 (LATIN-1) string
+ */
+function encodeZeroTerminatedString(str: string, field: string): Uint8Array {
+  const data = new Uint8Array(str.length + 1);
+  for (let i = 0; i < str.length; ++i) {
+    const code = str.charCodeAt(i);
+    if (code === 0 || code > 0xFF) {
+      throw new ArchiveUsageError(`Gzip ${field} contains a character which cannot be encoded in ISO 8859-1: "${str}"`);
+    }
+    data[i] = code;
+  }
+  return data;
+}
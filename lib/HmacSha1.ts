@@ -0,0 +1,112 @@
+/**
+ * Incremental SHA-1 and HMAC-SHA1
+ * WebCrypto only supports one-shot digests, the incremental implementation allows authenticating streamed data.
+ * Ref: RFC 3174, RFC 2104
+ */
+
+const blockSize = 64;
+
+export class Sha1 {
+
+  private h = Uint32Array.of(0x67452301, 0xEFCDAB89, 0x98BADCFE, 0x10325476, 0xC3D2E1F0);
+  private block = new Uint8Array(blockSize);
+  private blockLength = 0;
+  private totalLength = 0;
+  private w = new Uint32Array(80);
+
+  public update(data: Uint8Array): this {
+    let offset = 0;
+    this.totalLength += data.length;
+    while (offset < data.length) {
+      const len = Math.min(blockSize - this.blockLength, data.length - offset);
+      this.block.set(data.subarray(offset, offset + len), this.blockLength);
+      this.blockLength += len;
+      offset += len;
+      if (this.blockLength === blockSize) {
+        this.processBlock();
+        this.blockLength = 0;
+      }
+    }
+    return this;
+  }
+
+  public digest(): Uint8Array {
+    const bitLength = this.totalLength * 8;
+    const padding = new Uint8Array(((blockSize + 55 - this.blockLength) % blockSize) + 9);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(padding.length - 4, bitLength >>> 0);
+    this.update(padding);
+    const digest = new Uint8Array(20);
+    const digestView = new DataView(digest.buffer);
+    for (let i = 0; i < 5; ++i) {
+      digestView.setUint32(i * 4, this.h[i]);
+    }
+    return digest;
+  }
+
+  private processBlock(): void {
+    const w = this.w;
+    const block = this.block;
+    for (let i = 0; i < 16; ++i) {
+      w[i] = (block[i * 4] << 24) | (block[i * 4 + 1] << 16) | (block[i * 4 + 2] << 8) | block[i * 4 + 3];
+    }
+    for (let i = 16; i < 80; ++i) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+    let [a, b, c, d, e] = this.h;
+    for (let i = 0; i < 80; ++i) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5A827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ED9EBA1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8F1BBCDC;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xCA62C1D6;
+      }
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) >>> 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+    this.h[0] += a;
+    this.h[1] += b;
+    this.h[2] += c;
+    this.h[3] += d;
+    this.h[4] += e;
+  }
+}
+
+export class HmacSha1 {
+
+  private inner = new Sha1();
+  private outerKey: Uint8Array;
+
+  constructor(key: Uint8Array) {
+    const paddedKey = new Uint8Array(blockSize);
+    paddedKey.set(key.length > blockSize ? new Sha1().update(key).digest() : key);
+    const innerKey = paddedKey.map(byte => byte ^ 0x36);
+    this.outerKey = paddedKey.map(byte => byte ^ 0x5C);
+    this.inner.update(innerKey);
+  }
+
+  public update(data: Uint8Array): this {
+    this.inner.update(data);
+    return this;
+  }
+
+  public digest(): Uint8Array {
+    return new Sha1().update(this.outerKey).update(this.inner.digest()).digest();
+  }
+}
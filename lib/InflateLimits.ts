@@ -0,0 +1,135 @@
+import { LimitExceededError } from './Errors.js';
+
+/**
+ * Limits, protecting against decompression bombs.
+ * The limits apply to a single handler: nested archives, like a ZIP archive stored in a ZIP archive, are not accounted.
+ * The nesting depth of archives inflated recursively has to be limited by the caller.
+ */
+export interface IInflateLimits {
+  /**
+   * Maximum number of inflated bytes of a single entry (ZIP entry or gzip member)
+   */
+  maxEntrySize?: number;
+  /**
+   * Maximum number of inflated bytes of all entries (ZIP entries or gzip members) together
+   */
+  maxTotalSize?: number;
+  /**
+   * Maximum ratio of inflated bytes to compressed bytes, of a single entry
+   */
+  maxCompressionRatio?: number;
+  /**
+   * Maximum number of entries (ZIP entries or gzip members)
+   */
+  maxEntries?: number;
+  /**
+   * Maximum size of the ZIP central-directory, in bytes
+   */
+  maxCentralDirectorySize?: number;
+}
+
+/**
+ * Tracks the inflated size of a single entry
+ */
+export class EntryLimiter {
+
+  private compressed = 0;
+  private inflated = 0;
+
+  constructor(private parent: InflateLimiter, private limits: IInflateLimits, private filename: string) {
+  }
+
+  /**
+   * Account compressed bytes, fed to the decoder
+   */
+  public addCompressed(length: number): void {
+    this.compressed += length;
+  }
+
+  /**
+   * Account inflated bytes
+   * @throws LimitExceededError if one of the limits is exceeded
+   */
+  public addInflated(length: number): void {
+    this.inflated += length;
+    if (this.limits.maxEntrySize !== undefined && this.inflated > this.limits.maxEntrySize) {
+      throw new LimitExceededError('maxEntrySize', this.limits.maxEntrySize, this.filename);
+    }
+    if (this.limits.maxCompressionRatio !== undefined && this.inflated > this.limits.maxCompressionRatio * Math.max(this.compressed, 1)) {
+      throw new LimitExceededError('maxCompressionRatio', this.limits.maxCompressionRatio, this.filename);
+    }
+    this.parent.addInflated(length, this.filename);
+  }
+
+  /**
+   * Stream counting the compressed data passing through
+   */
+  public countCompressed(): TransformStream<Uint8Array, Uint8Array> {
+    return countingStream(length => this.addCompressed(length));
+  }
+
+  /**
+   * Stream counting the inflated data passing through, erroring as soon as a limit is exceeded
+   */
+  public countInflated(): TransformStream<Uint8Array, Uint8Array> {
+    return countingStream(length => this.addInflated(length));
+  }
+}
+
+/**
+ * Enforces the inflate limits of a single archive
+ */
+export class InflateLimiter {
+
+  private totalInflated = 0;
+  private entries = 0;
+
+  constructor(private limits: IInflateLimits) {
+  }
+
+  /**
+   * Check the number of entries, listed in the central-directory
+   */
+  public checkEntries(nrOfEntries: number): void {
+    if (this.limits.maxEntries !== undefined && nrOfEntries > this.limits.maxEntries) {
+      throw new LimitExceededError('maxEntries', this.limits.maxEntries);
+    }
+  }
+
+  public checkCentralDirectorySize(size: number): void {
+    if (this.limits.maxCentralDirectorySize !== undefined && size > this.limits.maxCentralDirectorySize) {
+      throw new LimitExceededError('maxCentralDirectorySize', this.limits.maxCentralDirectorySize);
+    }
+  }
+
+  /**
+   * Count an entry, found by scanning sequentially
+   */
+  public countEntry(): void {
+    this.checkEntries(++this.entries);
+  }
+
+  /**
+   * Start tracking the inflated size of an entry
+   * @param filename Name of the entry
+   */
+  public trackEntry(filename: string): EntryLimiter {
+    return new EntryLimiter(this, this.limits, filename);
+  }
+
+  public addInflated(length: number, filename: string): void {
+    this.totalInflated += length;
+    if (this.limits.maxTotalSize !== undefined && this.totalInflated > this.limits.maxTotalSize) {
+      throw new LimitExceededError('maxTotalSize', this.limits.maxTotalSize, filename);
+    }
+  }
+}
+
+function countingStream(count: (length: number) => void): TransformStream<Uint8Array, Uint8Array> {
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      count(chunk.length);
+      controller.enqueue(chunk);
+    }
+  });
+}
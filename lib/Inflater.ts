@@ -0,0 +1,501 @@
+/**
+ * Streaming inflater, decoding Deflate (RFC 1951) and Deflate64 (Enhanced Deflate) compressed data.
+ * Ref https://www.rfc-editor.org/rfc/rfc1951
+ *
+ * Deflate64 differs from Deflate in:
+ * - A 64 KiB window (instead of 32 KiB)
+ * - Length code 285 has 16 extra bits, with base length 3 (instead of fixed length 258)
+ * - Distance codes 30 and 31 are used, for distances up to 65536
+ */
+
+export interface IInflaterOptions {
+  /**
+   * Decode Deflate64 (ZIP compression method 9), instead of Deflate
+   */
+  deflate64?: boolean;
+  /**
+   * Preset dictionary, which back-references may refer to as if it preceded the inflated data (zlib FDICT)
+   */
+  dictionary?: Uint8Array;
+}
+
+const lengthBase = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const lengthExtra = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const distanceBase = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073,
+  4097, 6145, 8193, 12289, 16385, 24577, 32769, 49153];
+const distanceExtra = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13, 14, 14];
+/**
+ * Order of the code length code lengths
+ */
+const codeLengthOrder = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const historySize = 64 * 1024;
+/**
+ * Output is returned in chunks of (about) this size
+ */
+const outputChunkSize = 64 * 1024;
+/**
+ * Maximum match length: Deflate64 length code 285, base 3 plus 16 extra bits
+ */
+const maxMatchLength = 3 + 0xFFFF;
+
+/**
+ * Thrown internally, if more input is required to decode the next symbol or block header
+ */
+const needInput = new Error('Need more input');
+
+interface IHuffmanTable {
+  /**
+   * Lookup table, indexed by the next `maxLength` (bit reversed) input bits.
+   * Each entry holds `symbol << 4 | code-length`, 0 for an invalid code.
+   */
+  lookup: Uint32Array;
+  maxLength: number;
+}
+
+function buildHuffmanTable(codeLengths: ArrayLike<number>): IHuffmanTable {
+  let maxLength = 0;
+  const count = new Uint16Array(16);
+  for (let symbol = 0; symbol < codeLengths.length; ++symbol) {
+    count[codeLengths[symbol]]++;
+    maxLength = Math.max(maxLength, codeLengths[symbol]);
+  }
+  count[0] = 0;
+  // Check for an over-subscribed set of lengths
+  let left = 1;
+  for (let len = 1; len <= 15; ++len) {
+    left = (left << 1) - count[len];
+    if (left < 0) {
+      throw new Error('Invalid deflate data: over-subscribed Huffman code');
+    }
+  }
+  const nextCode = new Uint16Array(16);
+  for (let len = 1, code = 0; len <= 15; ++len) {
+    code = (code + count[len - 1]) << 1;
+    nextCode[len] = code;
+  }
+  const lookup = new Uint32Array(1 << maxLength);
+  for (let symbol = 0; symbol < codeLengths.length; ++symbol) {
+    const len = codeLengths[symbol];
+    if (len === 0) continue;
+    const code = nextCode[len]++;
+    // Huffman codes are packed starting with the most-significant bit
+    let reversed = 0;
+    for (let i = 0; i < len; ++i) {
+      reversed |= ((code >>> i) & 1) << (len - 1 - i);
+    }
+    for (let index = reversed; index < lookup.length; index += 1 << len) {
+      lookup[index] = (symbol << 4) | len;
+    }
+  }
+  return {lookup, maxLength};
+}
+
+let fixedTables: { literalLength: IHuffmanTable, distance: IHuffmanTable } | undefined;
+
+function getFixedTables() {
+  if (!fixedTables) {
+    const literalLengths = new Uint8Array(288);
+    literalLengths.fill(8, 0, 144);
+    literalLengths.fill(9, 144, 256);
+    literalLengths.fill(7, 256, 280);
+    literalLengths.fill(8, 280, 288);
+    fixedTables = {
+      literalLength: buildHuffmanTable(literalLengths),
+      distance: buildHuffmanTable(new Uint8Array(32).fill(5))
+    };
+  }
+  return fixedTables;
+}
+
+enum Mode {
+  BlockHeader,
+  Stored,
+  Huffman,
+  Done
+}
+
+export class Inflater {
+
+  private readonly deflate64: boolean;
+
+  private input: Uint8Array = new Uint8Array(0);
+  private inPos = 0;
+  private bitBuf = 0;
+  private bitCount = 0;
+  /**
+   * Number of input bytes, discarded from the input buffer
+   */
+  private inputOffset = 0;
+  private endOfInput = false;
+
+  private mode = Mode.BlockHeader;
+  private lastBlock = false;
+  private storedRemaining = 0;
+  private literalLengthTable: IHuffmanTable | undefined;
+  private distanceTable: IHuffmanTable | undefined;
+
+  /**
+   * Output buffer, holding the history (window) followed by the output not yet returned
+   */
+  private output = new Uint8Array(historySize + outputChunkSize + maxMatchLength);
+  private outPos = 0;
+  private historyLength = 0;
+  private totalOut = 0;
+
+  constructor(options: IInflaterOptions = {}) {
+    this.deflate64 = !!options.deflate64;
+    if (options.dictionary) {
+      const dictionary = options.dictionary.subarray(Math.max(options.dictionary.length - historySize, 0));
+      this.output.set(dictionary);
+      this.outPos = this.historyLength = dictionary.length;
+    }
+  }
+
+  /**
+   * True if the end of the compressed stream (the last block) has been decoded
+   */
+  public get finished(): boolean {
+    return this.mode === Mode.Done;
+  }
+
+  /**
+   * Number of compressed bytes consumed.
+   * Once finished, this is the exact length of the compressed stream.
+   */
+  public get bytesConsumed(): number {
+    return this.inputOffset + this.inPos - (this.bitCount >>> 3);
+  }
+
+  /**
+   * Number of inflated bytes produced
+   */
+  public get bytesInflated(): number {
+    return this.totalOut;
+  }
+
+  /**
+   * Input data following the end of the compressed stream
+   */
+  public get unconsumed(): Uint8Array {
+    return this.input.subarray(this.inPos - (this.bitCount >>> 3));
+  }
+
+  /**
+   * Append compressed data
+   * @param data Chunk of compressed data
+   */
+  public push(data: Uint8Array): void {
+    if (this.inPos < this.input.length) {
+      const input = new Uint8Array(this.input.length - this.inPos + data.length);
+      input.set(this.input.subarray(this.inPos));
+      input.set(data, this.input.length - this.inPos);
+      this.input = input;
+    } else {
+      this.input = data;
+    }
+    this.inputOffset += this.inPos;
+    this.inPos = 0;
+  }
+
+  /**
+   * Signal that all compressed data has been pushed
+   */
+  public end(): void {
+    this.endOfInput = true;
+  }
+
+  /**
+   * Decode the pushed compressed data
+   * @return Next chunk of inflated data, undefined if more input is required, or the end of the stream has been reached
+   */
+  public inflate(): Uint8Array | undefined {
+    while (this.mode !== Mode.Done && this.outPos - this.historyLength < outputChunkSize) {
+      const inPos = this.inPos;
+      const bitBuf = this.bitBuf;
+      const bitCount = this.bitCount;
+      try {
+        this.step();
+      } catch (err) {
+        if (err !== needInput) throw err;
+        if (this.endOfInput) {
+          throw new Error('Unexpected end of deflate stream');
+        }
+        // Rewind to the start of the symbol or block header, and wait for more input
+        this.inPos = inPos;
+        this.bitBuf = bitBuf;
+        this.bitCount = bitCount;
+        break;
+      }
+    }
+    return this.flushOutput();
+  }
+
+  private flushOutput(): Uint8Array | undefined {
+    if (this.outPos === this.historyLength) return;
+    const chunk = this.output.slice(this.historyLength, this.outPos);
+    this.totalOut += chunk.length;
+    // Keep the history, to resolve back-references
+    const keep = Math.min(this.outPos, historySize);
+    this.output.copyWithin(0, this.outPos - keep, this.outPos);
+    this.outPos = keep;
+    this.historyLength = keep;
+    return chunk;
+  }
+
+  private step(): void {
+    switch (this.mode) {
+      case Mode.BlockHeader:
+        this.readBlockHeader();
+        break;
+      case Mode.Stored:
+        this.copyStored();
+        break;
+      case Mode.Huffman:
+        this.decodeSymbol();
+        break;
+    }
+  }
+
+  private endOfBlock(): void {
+    this.mode = this.lastBlock ? Mode.Done : Mode.BlockHeader;
+  }
+
+  private readBlockHeader(): void {
+    const header = this.getBits(3);
+    const lastBlock = (header & 1) === 1;
+    switch (header >>> 1) {
+      case 0: { // Stored
+        // Skip to byte boundary
+        this.getBits(this.bitCount & 7);
+        const len = this.getBits(16);
+        const nlen = this.getBits(16);
+        if (len !== (~nlen & 0xFFFF)) {
+          throw new Error('Invalid deflate data: stored block length mismatch');
+        }
+        this.storedRemaining = len;
+        this.mode = Mode.Stored;
+        break;
+      }
+      case 1: { // Fixed Huffman codes
+        const tables = getFixedTables();
+        this.literalLengthTable = tables.literalLength;
+        this.distanceTable = tables.distance;
+        this.mode = Mode.Huffman;
+        break;
+      }
+      case 2: // Dynamic Huffman codes
+        this.readDynamicTables();
+        this.mode = Mode.Huffman;
+        break;
+      default:
+        throw new Error('Invalid deflate data: invalid block type');
+    }
+    this.lastBlock = lastBlock;
+  }
+
+  private readDynamicTables(): void {
+    const nrOfLiteralLengthCodes = this.getBits(5) + 257;
+    const nrOfDistanceCodes = this.getBits(5) + 1;
+    const nrOfCodeLengthCodes = this.getBits(4) + 4;
+    if (nrOfLiteralLengthCodes > 286 && !this.deflate64) {
+      throw new Error('Invalid deflate data: too many length codes');
+    }
+    const codeLengthLengths = new Uint8Array(19);
+    for (let i = 0; i < nrOfCodeLengthCodes; ++i) {
+      codeLengthLengths[codeLengthOrder[i]] = this.getBits(3);
+    }
+    const codeLengthTable = buildHuffmanTable(codeLengthLengths);
+    const codeLengths = new Uint8Array(nrOfLiteralLengthCodes + nrOfDistanceCodes);
+    let n = 0;
+    while (n < codeLengths.length) {
+      const symbol = this.decode(codeLengthTable);
+      if (symbol < 16) {
+        codeLengths[n++] = symbol;
+        continue;
+      }
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (n === 0) {
+          throw new Error('Invalid deflate data: repeat without previous code length');
+        }
+        value = codeLengths[n - 1];
+        repeat = 3 + this.getBits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.getBits(3);
+      } else {
+        repeat = 11 + this.getBits(7);
+      }
+      if (n + repeat > codeLengths.length) {
+        throw new Error('Invalid deflate data: too many code lengths');
+      }
+      codeLengths.fill(value, n, n + repeat);
+      n += repeat;
+    }
+    if (codeLengths[256] === 0) {
+      throw new Error('Invalid deflate data: missing end-of-block code');
+    }
+    this.literalLengthTable = buildHuffmanTable(codeLengths.subarray(0, nrOfLiteralLengthCodes));
+    this.distanceTable = buildHuffmanTable(codeLengths.subarray(nrOfLiteralLengthCodes));
+  }
+
+  private copyStored(): void {
+    if (this.storedRemaining === 0) {
+      this.endOfBlock();
+      return;
+    }
+    if (this.bitCount >= 8) {
+      // Whole bytes may still be held in the bit-buffer
+      this.output[this.outPos++] = this.getBits(8);
+      --this.storedRemaining;
+      return;
+    }
+    const len = Math.min(this.storedRemaining, this.input.length - this.inPos, outputChunkSize);
+    if (len === 0) {
+      throw needInput;
+    }
+    this.output.set(this.input.subarray(this.inPos, this.inPos + len), this.outPos);
+    this.inPos += len;
+    this.outPos += len;
+    this.storedRemaining -= len;
+  }
+
+  private decodeSymbol(): void {
+    const symbol = this.decode(this.literalLengthTable as IHuffmanTable);
+    if (symbol < 256) {
+      this.output[this.outPos++] = symbol;
+      return;
+    }
+    if (symbol === 256) {
+      this.endOfBlock();
+      return;
+    }
+    const lengthCode = symbol - 257;
+    if (lengthCode >= lengthBase.length) {
+      throw new Error('Invalid deflate data: invalid length code');
+    }
+    const length = this.deflate64 && lengthCode === 28
+      ? 3 + this.getBits(16)
+      : lengthBase[lengthCode] + this.getBits(lengthExtra[lengthCode]);
+    const distanceCode = this.decode(this.distanceTable as IHuffmanTable);
+    if (distanceCode >= (this.deflate64 ? 32 : 30)) {
+      throw new Error('Invalid deflate data: invalid distance code');
+    }
+    const distance = distanceBase[distanceCode] + this.getBits(distanceExtra[distanceCode]);
+    if (distance > this.outPos) {
+      throw new Error('Invalid deflate data: distance too far back');
+    }
+    const output = this.output;
+    let outPos = this.outPos;
+    const end = outPos + length;
+    while (outPos < end) {
+      output[outPos] = output[outPos - distance];
+      ++outPos;
+    }
+    this.outPos = outPos;
+  }
+
+  /**
+   * Decode the next Huffman coded symbol
+   */
+  private decode(table: IHuffmanTable): number {
+    this.fillBits(table.maxLength);
+    const entry = table.lookup[this.bitBuf & ((1 << table.maxLength) - 1)];
+    const len = entry & 15;
+    if (len > this.bitCount) {
+      throw needInput;
+    }
+    if (entry === 0) {
+      throw new Error('Invalid deflate data: invalid Huffman code');
+    }
+    this.bitBuf >>>= len;
+    this.bitCount -= len;
+    return entry >>> 4;
+  }
+
+  /**
+   * Load bits into the bit-buffer, as far as input is available
+   * @param n Number of bits required
+   */
+  private fillBits(n: number): void {
+    while (this.bitCount < n && this.inPos < this.input.length) {
+      this.bitBuf |= this.input[this.inPos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+  }
+
+  /**
+   * Read bits, least-significant bit first
+   * @param n Number of bits, up to 16
+   */
+  private getBits(n: number): number {
+    this.fillBits(n);
+    if (this.bitCount < n) {
+      throw needInput;
+    }
+    const value = this.bitBuf & ((1 << n) - 1);
+    this.bitBuf >>>= n;
+    this.bitCount -= n;
+    return value;
+  }
+}
+
+/**
+ * Create a stream, inflating Deflate or Deflate64 compressed data.
+ * As the Compression Streams standard specifies for `DecompressionStream`, data following the end of the compressed data is an error.
+ * @param options Inflater options
+ */
+export function makeInflateStream(options?: IInflaterOptions): TransformStream<Uint8Array, Uint8Array> {
+  const inflater = new Inflater(options);
+
+  function drain(controller: TransformStreamDefaultController<Uint8Array>) {
+    for (let chunk = inflater.inflate(); chunk; chunk = inflater.inflate()) {
+      controller.enqueue(chunk);
+    }
+    if (inflater.finished && inflater.unconsumed.length > 0) {
+      throw new Error('Invalid deflate data: data following the end of the compressed data');
+    }
+  }
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      inflater.push(chunk);
+      drain(controller);
+    },
+    flush(controller) {
+      inflater.end();
+      drain(controller);
+      if (!inflater.finished) {
+        throw new Error('Unexpected end of deflate stream');
+      }
+    }
+  });
+}
+
+/**
+ * Engine inflating Deflate compressed data:
+ * - 'auto': the native `DecompressionStream`, falling back to the built-in inflater if `DecompressionStream` is not available
+ * - 'native': the native `DecompressionStream`
+ * - 'builtin': the built-in TypeScript `Inflater`
+ */
+export type InflateEngine = 'auto' | 'native' | 'builtin';
+
+/**
+ * Determine if the engine resolves to the native `DecompressionStream`
+ * @param engine Inflate engine, default 'auto'
+ */
+export function isNativeEngine(engine: InflateEngine = 'auto'): boolean {
+  return engine === 'native' || (engine === 'auto' && typeof DecompressionStream !== 'undefined');
+}
+
+/**
+ * Create a stream, inflating raw Deflate compressed data with the selected engine
+ * @param engine Inflate engine, default 'auto'
+ */
+export function makeDeflateRawDecoder(engine: InflateEngine = 'auto'): ReadableWritablePair<Uint8Array, Uint8Array> {
+  if (!isNativeEngine(engine)) {
+    return makeInflateStream();
+  }
+  return new DecompressionStream('deflate-raw') as unknown as ReadableWritablePair<Uint8Array, Uint8Array>;
+}
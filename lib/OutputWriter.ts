@@ -0,0 +1,106 @@
+import { crc32 } from './Crc32.js';
+
+/**
+ * Data to compress; a string is UTF-8 encoded
+ */
+export type WriterData = Uint8Array | string | ReadableStream<Uint8Array>;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Sequential output of a writer, like the `ZipWriter`.
+ * Tasks writing to the output run one after the other, in the order they are enqueued.
+ */
+export class OutputWriter {
+
+  public readonly readable: ReadableStream<Uint8Array>;
+  /**
+   * Number of bytes written so far
+   */
+  public position = 0;
+
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * @param transform Transforms the written data into the output, default passes the data through
+   */
+  constructor(transform: ReadableWritablePair<Uint8Array, Uint8Array> = new TransformStream<Uint8Array, Uint8Array>()) {
+    this.readable = transform.readable;
+    this.writer = transform.writable.getWriter();
+  }
+
+  /**
+   * Run the task after the preceding tasks; a failure aborts the output, as the output is incomplete
+   */
+  public enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(err => this.writer.abort(err));
+    return result;
+  }
+
+  public async write(data: Uint8Array): Promise<void> {
+    await this.writer.write(data);
+    this.position += data.length;
+  }
+
+  /**
+   * Write all data of the stream
+   * @return Number of bytes written
+   */
+  public async writeStream(stream: ReadableStream<Uint8Array>): Promise<number> {
+    let length = 0;
+    const reader = stream.getReader();
+    for (;;) {
+      const result = await reader.read();
+      if (result.done) return length;
+      length += result.value.length;
+      await this.write(result.value);
+    }
+  }
+
+  public close(): Promise<void> {
+    return this.writer.close();
+  }
+}
+
+/**
+ * Calculates the CRC-32 and size of the data passing through `stream`
+ */
+export class Crc32Counter {
+
+  public crc32 = 0;
+  public size = 0;
+
+  public readonly stream = new TransformStream<Uint8Array, Uint8Array>({
+    transform: (chunk, controller) => {
+      this.crc32 = crc32(chunk, this.crc32);
+      this.size += chunk.length;
+      controller.enqueue(chunk);
+    }
+  });
+}
+
+export function toUint8Array(data: Uint8Array | string): Uint8Array {
+  return typeof data === 'string' ? textEncoder.encode(data) : data;
+}
+
+export function toStream(data: WriterData): ReadableStream<Uint8Array> {
+  if (data instanceof ReadableStream) {
+    return data;
+  }
+  const array = toUint8Array(data);
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(array);
+      controller.close();
+    }
+  });
+}
+
+/**
+ * Create a raw deflate compression stream
+ */
+export function makeDeflateRawStream(): ReadableWritablePair<Uint8Array, Uint8Array> {
+  return new CompressionStream('deflate-raw') as unknown as ReadableWritablePair<Uint8Array, Uint8Array>;
+}
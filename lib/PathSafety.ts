@@ -0,0 +1,101 @@
+/**
+ * Entry name safety, guarding against path traversal (zip-slip) when extracting entries to a file system
+ */
+
+/**
+ * Issues found in an entry name
+ * - `backslash`: Path containing a backslash, a path separator on Windows
+ * - `absolute`: Absolute path, starting with a slash
+ * - `drive-letter`: Path starting with a drive letter, like `C:`
+ * - `parent-directory`: Path containing a `..` segment
+ * - `nul-byte`: Path containing a NUL byte
+ * - `empty`: Path resolving to an empty name
+ * - `duplicate`: Name equal to the name of a preceding entry
+ * - `case-collision`: Name only differing in case (or Unicode normalization) from the name of a preceding entry
+ */
+export type PathIssue = 'backslash' | 'absolute' | 'drive-letter' | 'parent-directory' | 'nul-byte' | 'empty' | 'duplicate' | 'case-collision';
+
+/**
+ * - `sanitize`: Replace the filename with a safe, relative path, reporting the issues in `pathIssues`
+ * - `reject`: Throw an `UnsafeEntryNameError` for any entry name with issues
+ */
+export type PathSafetyMode = 'sanitize' | 'reject';
+
+export interface ISanitizedPath {
+  /**
+   * Safe relative path, using forward slashes
+   */
+  path: string;
+  issues: PathIssue[];
+}
+
+/**
+ * Normalize an entry name into a safe relative path:
+ * backslashes are converted to forward slashes, the drive letter and leading slashes are removed,
+ * `.` and empty segments are dropped, `..` segments are resolved without escaping the root,
+ * and the name is truncated at a NUL byte.
+ * A trailing slash, indicating a directory, is preserved.
+ * @param filename Entry name, as stored in the archive
+ */
+export function sanitizePath(filename: string): ISanitizedPath {
+  const issues: PathIssue[] = [];
+  let path = filename;
+  const nulIndex = path.indexOf('\0');
+  if (nulIndex !== -1) {
+    issues.push('nul-byte');
+    path = path.substring(0, nulIndex);
+  }
+  if (path.includes('\\')) {
+    issues.push('backslash');
+    path = path.replace(/\\/g, '/');
+  }
+  if (/^[a-zA-Z]:/.test(path)) {
+    issues.push('drive-letter');
+    path = path.substring(2);
+  }
+  if (path.startsWith('/')) {
+    issues.push('absolute');
+  }
+  const isDirectory = path.endsWith('/');
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (!issues.includes('parent-directory')) {
+        issues.push('parent-directory');
+      }
+      segments.pop();
+      continue;
+    }
+    segments.push(segment);
+  }
+  if (segments.length === 0) {
+    issues.push('empty');
+  }
+  path = segments.join('/');
+  return {
+    path: isDirectory && segments.length > 0 ? `${path}/` : path,
+    issues
+  };
+}
+
+/**
+ * Detects duplicate names, and names only differing in case, within a set of entries
+ */
+export class PathCollisionDetector {
+
+  private names = new Set<string>();
+  private foldedNames = new Set<string>();
+
+  /**
+   * @param path Sanitized path of the entry
+   * @return Issue if the path collides with a previously added path
+   */
+  public add(path: string): PathIssue | undefined {
+    const folded = path.normalize('NFC').toLowerCase();
+    if (this.names.has(path)) return 'duplicate';
+    this.names.add(path);
+    if (this.foldedNames.has(folded)) return 'case-collision';
+    this.foldedNames.add(folded);
+  }
+}
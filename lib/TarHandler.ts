@@ -0,0 +1,193 @@
+import type { ITokenizer } from 'strtok3';
+import { Uint8ArrayType } from 'token-types';
+import initDebug from 'debug';
+import { CompressedDataReader } from './CompressedDataReader.js';
+import { TarFormatError, TruncatedArchiveError } from './Errors.js';
+import type { InflateFileFilterResult } from './ZipHandler.js';
+import {
+  calculateTarChecksum,
+  decodeString,
+  type ITarHeader,
+  parsePaxHeader,
+  tarBlockSize,
+  TarEntryType,
+  TarHeaderToken
+} from './TarToken.js';
+
+const debug = initDebug('tokenizer:inflate');
+
+/**
+ * The size of the data of a tar entry is known, no sync-buffer is required
+ */
+const emptyArray = new Uint8Array(0);
+
+/**
+ * Maximum size of the data of a GNU long name / long link or PAX extended header, read into memory
+ */
+const maxMetadataSize = 1024 * 1024;
+
+export interface ITarEntry extends ITarHeader {
+  /**
+   * Full path of the entry, resolved from the ustar prefix, GNU long name or PAX path
+   */
+  name: string;
+  /**
+   * Link target of hard and symbolic links, resolved from the GNU long link name or PAX linkpath
+   */
+  linkName: string;
+  /**
+   * PAX extended header records (including global records) applying to this entry, undefined if none
+   */
+  pax?: Record<string, string>;
+}
+
+/**
+ * Return `InflateFileFilterResult`, to handle or ignore the data of the tar entry
+ */
+export type TarEntryFilter = (entry: ITarEntry) => InflateFileFilterResult;
+
+/**
+ * Metadata preceding an entry, provided by GNU long name / long link and PAX extended headers
+ */
+interface IPendingMetadata {
+  longName?: string;
+  longLinkName?: string;
+  pax?: Record<string, string>;
+}
+
+export class TarHandler {
+
+  constructor(private tokenizer: ITokenizer) {
+  }
+
+  /**
+   * Determines whether the input is a tar archive, by verifying the checksum of the first header block
+   */
+  async isTar(): Promise<boolean> {
+    const block = new Uint8Array(tarBlockSize);
+    const len = await this.tokenizer.peekBuffer(block, {mayBeLess: true});
+    if (len < tarBlockSize) return false;
+    const header = TarHeaderToken.get(block, 0);
+    return !Number.isNaN(header.checksum) && header.checksum === calculateTarChecksum(block);
+  }
+
+  /**
+   * Iterate over the entries of the tar archive
+   * @param fileCb Called for each entry, to decide whether the entry data should be handled
+   */
+  async untar(fileCb: TarEntryFilter): Promise<void> {
+    let globalPax: Record<string, string> | undefined;
+    let pending: IPendingMetadata = {};
+    for (;;) {
+      const header = await this.readHeader();
+      if (!header) break;
+
+      switch (header.type) {
+        case TarEntryType.GnuLongName:
+          pending.longName = decodeString(await this.readData(header.size));
+          continue;
+        case TarEntryType.GnuLongLinkName:
+          pending.longLinkName = decodeString(await this.readData(header.size));
+          continue;
+        case TarEntryType.PaxHeader:
+          pending.pax = {...pending.pax, ...parsePaxHeader(await this.readData(header.size))};
+          continue;
+        case TarEntryType.PaxGlobalHeader:
+          globalPax = {...globalPax, ...parsePaxHeader(await this.readData(header.size))};
+          continue;
+      }
+
+      const pax = globalPax || pending.pax ? {...globalPax, ...pending.pax} : undefined;
+      const entry = TarHandler.resolveEntry(header, pending, pax);
+      pending = {};
+
+      const next = fileCb(entry);
+      await this.extract(entry, new CompressedDataReader(this.tokenizer, emptyArray, entry.size), next);
+      await this.skipPadding(entry.size);
+      if (next.stop) break;
+    }
+  }
+
+  /**
+   * Read the next header block
+   * @return Header, undefined at the end of the archive
+   */
+  private async readHeader(): Promise<ITarHeader | undefined> {
+    const block = new Uint8Array(tarBlockSize);
+    const offset = this.tokenizer.position;
+    const len = await this.tokenizer.readBuffer(block, {mayBeLess: true});
+    if (len === 0 || block.every(byte => byte === 0)) {
+      // End of archive, marked by (two) zero blocks
+      return;
+    }
+    if (len < tarBlockSize) {
+      throw new TruncatedArchiveError(`Unexpected end of tar archive at position ${this.tokenizer.position}`, {offset});
+    }
+    const header = TarHeaderToken.get(block, 0);
+    if (header.checksum !== calculateTarChecksum(block)) {
+      throw new TarFormatError(`Invalid tar header checksum at position ${offset}`, {offset});
+    }
+    debug(`Read tar header of name=${header.name}, type=${header.type}, size=${header.size}`);
+    return header;
+  }
+
+  private static resolveEntry(header: ITarHeader, pending: IPendingMetadata, pax?: Record<string, string>): ITarEntry {
+    const entry: ITarEntry = {
+      ...header,
+      name: pending.longName ?? (header.prefix ? `${header.prefix}/${header.name}` : header.name),
+      linkName: pending.longLinkName ?? header.linkName,
+      pax
+    };
+    if (pax) {
+      if (pax.path !== undefined) entry.name = pax.path;
+      if (pax.linkpath !== undefined) entry.linkName = pax.linkpath;
+      if (pax.size !== undefined) entry.size = Number.parseInt(pax.size, 10);
+      if (pax.mtime !== undefined) entry.mtime = Number.parseFloat(pax.mtime);
+      if (pax.uid !== undefined) entry.uid = Number.parseInt(pax.uid, 10);
+      if (pax.gid !== undefined) entry.gid = Number.parseInt(pax.gid, 10);
+      if (pax.uname !== undefined) entry.uname = pax.uname;
+      if (pax.gname !== undefined) entry.gname = pax.gname;
+    }
+    return entry;
+  }
+
+  private async extract(entry: ITarEntry, data: CompressedDataReader, next: InflateFileFilterResult): Promise<void> {
+    if (next.streamHandler) {
+      try {
+        await next.streamHandler(data.stream());
+      } finally {
+        // Move to the end of the data, in case the handler did not consume the whole stream
+        await data.skip();
+      }
+    } else if (next.handler) {
+      const fileData = new Uint8Array(await new Response(data.stream()).arrayBuffer());
+      await next.handler(fileData);
+    } else {
+      debug(`Ignoring data of name=${entry.name}`);
+      await data.skip();
+    }
+  }
+
+  /**
+   * Read the data of a metadata entry, including the padding
+   */
+  private async readData(size: number): Promise<Uint8Array> {
+    if (size > maxMetadataSize) {
+      const offset = this.tokenizer.position - tarBlockSize;
+      throw new TarFormatError(`Size of tar metadata entry at position ${offset} exceeds ${maxMetadataSize} bytes`, {offset});
+    }
+    const data = await this.tokenizer.readToken(new Uint8ArrayType(size));
+    await this.skipPadding(size);
+    return data;
+  }
+
+  /**
+   * Skip the padding, filling up the last block of data
+   */
+  private async skipPadding(size: number): Promise<void> {
+    const padding = (tarBlockSize - size % tarBlockSize) % tarBlockSize;
+    if (padding > 0) {
+      await this.tokenizer.ignore(padding);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Ref https://pubs.opengroup.org/onlinepubs/9699919799/utilities/pax.html
+ * Ref https://www.gnu.org/software/tar/manual/html_node/Standard.html
+ */
+
+import type {IGetToken} from "strtok3";
+import { TarFormatError } from "./Errors.js";
+
+/**
+ * Tar archives consist of blocks of 512 bytes
+ */
+export const tarBlockSize = 512;
+
+/**
+ * Type flags
+ */
+export const TarEntryType = {
+  File: '0',
+  HardLink: '1',
+  SymbolicLink: '2',
+  CharacterDevice: '3',
+  BlockDevice: '4',
+  Directory: '5',
+  Fifo: '6',
+  ContiguousFile: '7',
+  /**
+   * PAX extended header, applying to the next entry
+   */
+  PaxHeader: 'x',
+  /**
+   * PAX global extended header, applying to all subsequent entries
+   */
+  PaxGlobalHeader: 'g',
+  /**
+   * GNU long name, applying to the next entry
+   */
+  GnuLongName: 'L',
+  /**
+   * GNU long link name, applying to the next entry
+   */
+  GnuLongLinkName: 'K'
+}
+
+export interface ITarHeader {
+  name: string;
+  mode: number;
+  uid: number;
+  gid: number;
+  size: number;
+  /**
+   * Modification time, in seconds since the Unix epoch
+   */
+  mtime: number;
+  checksum: number;
+  /**
+   * Type flag, see `TarEntryType`; the legacy value '\0' is reported as regular file ('0')
+   */
+  type: string;
+  linkName: string;
+  /**
+   * 'ustar' for POSIX ustar, 'ustar ' for GNU tar, empty for the old (V7) format
+   */
+  magic: string;
+  uname: string;
+  gname: string;
+  devMajor: number;
+  devMinor: number;
+  /**
+   * Path prefix (POSIX ustar only)
+   */
+  prefix: string;
+}
+
+const utf8Decoder = new TextDecoder('utf-8');
+
+/**
+ * Decode a NUL terminated string
+ */
+export function decodeString(array: Uint8Array, offset = 0, length = array.length - offset): string {
+  const field = array.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return utf8Decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+/**
+ * Decode a numeric field: octal digits, or GNU base-256 encoding if the most significant bit of the first byte is set
+ */
+function decodeNumber(array: Uint8Array, offset: number, length: number): number {
+  if (array[offset] & 0x80) {
+    let value = array[offset] & 0x7F;
+    for (let i = 1; i < length; ++i) {
+      value = value * 256 + array[offset + i];
+    }
+    return value;
+  }
+  const str = decodeString(array, offset, length).trim();
+  return str === '' ? 0 : Number.parseInt(str, 8);
+}
+
+/**
+ * Calculate the header checksum: the sum of all header bytes, with the checksum field taken as 8 spaces
+ */
+export function calculateTarChecksum(block: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < tarBlockSize; ++i) {
+    sum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  return sum;
+}
+
+/**
+ * Tar header block
+ * Offset | Bytes| Description
+ * -------|------+-------------------------------------------------------------------
+ *      0 |  100 | Name
+ *    100 |    8 | Mode (octal)
+ *    108 |    8 | User ID (octal)
+ *    116 |    8 | Group ID (octal)
+ *    124 |   12 | Size (octal)
+ *    136 |   12 | Modification time (octal)
+ *    148 |    8 | Header checksum (octal)
+ *    156 |    1 | Type flag
+ *    157 |  100 | Link name
+ *    257 |    6 | Magic
+ *    263 |    2 | Version
+ *    265 |   32 | User name
+ *    297 |   32 | Group name
+ *    329 |    8 | Device major number (octal)
+ *    337 |    8 | Device minor number (octal)
+ *    345 |  155 | Prefix
+ */
+export const TarHeaderToken: IGetToken<ITarHeader> = {
+  get(array: Uint8Array): ITarHeader {
+    const type = String.fromCharCode(array[156]);
+    const magic = decodeString(array, 257, 6);
+    return {
+      name: decodeString(array, 0, 100),
+      mode: decodeNumber(array, 100, 8),
+      uid: decodeNumber(array, 108, 8),
+      gid: decodeNumber(array, 116, 8),
+      size: decodeNumber(array, 124, 12),
+      mtime: decodeNumber(array, 136, 12),
+      checksum: decodeNumber(array, 148, 8),
+      type: type === '\0' ? TarEntryType.File : type,
+      linkName: decodeString(array, 157, 100),
+      magic,
+      uname: decodeString(array, 265, 32),
+      gname: decodeString(array, 297, 32),
+      devMajor: decodeNumber(array, 329, 8),
+      devMinor: decodeNumber(array, 337, 8),
+      prefix: magic === 'ustar' ? decodeString(array, 345, 155) : ''
+    };
+  },
+  len: tarBlockSize
+};
+
+/**
+ * Parse the records of a PAX extended header: "<length> <keyword>=<value>\n"
+ */
+export function parsePaxHeader(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = Number.parseInt(decodeString(data, offset, space - offset), 10);
+    if (!(length > 0) || offset + length > data.length) {
+      throw new TarFormatError('Invalid PAX extended header record');
+    }
+    // Record without the trailing newline
+    const record = utf8Decoder.decode(data.subarray(space + 1, offset + length - 1));
+    const equals = record.indexOf('=');
+    if (equals > 0) {
+      records[record.substring(0, equals)] = record.substring(equals + 1);
+    }
+    offset += length;
+  }
+  return records;
+}
@@ -0,0 +1,37 @@
+/**
+ * Decoding of filenames and comments
+ */
+
+/**
+ * Code page 437 (original IBM PC), characters 0x80-0xFF; 0x00-0x7F is equal to ASCII
+ */
+const cp437 =
+  'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒ' +
+  'áíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+  '└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+  'αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■' +
+  '\u00A0';
+
+/**
+ * Decode code page 437 encoded text, the default encoding of ZIP filenames and comments, if the UTF-8 (EFS) flag is not set
+ */
+export function decodeCp437(data: Uint8Array): string {
+  let str = '';
+  for (const byte of data) {
+    str += byte < 0x80 ? String.fromCharCode(byte) : cp437[byte - 0x80];
+  }
+  return str;
+}
+
+/**
+ * Create a text decoder function
+ * @param encoding 'cp437', or any encoding label supported by TextDecoder, like 'utf-8', 'shift_jis' or 'ibm866'
+ */
+export function makeTextDecoder(encoding: string): (data: Uint8Array) => string {
+  const normalized = encoding.toLowerCase();
+  if (normalized === 'cp437' || normalized === 'ibm437') {
+    return decodeCp437;
+  }
+  const textDecoder = new TextDecoder(encoding);
+  return data => textDecoder.decode(data);
+}
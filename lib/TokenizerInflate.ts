@@ -0,0 +1,181 @@
+import type { IRandomAccessTokenizer, ITokenizer } from 'strtok3';
+import { isEndOfStreamError, LimitExceededError } from './Errors.js';
+import { type IInflaterOptions, type InflateEngine, Inflater, makeDeflateRawDecoder } from './Inflater.js';
+import type { EntryLimiter } from './InflateLimits.js';
+
+/**
+ * Number of compressed bytes peeked at once
+ */
+const compressedChunkSize = 64 * 1024;
+
+/**
+ * Inflate the compressed data, at the current position of the tokenizer.
+ * Compressed data is peeked, and only skipped once the inflater requires more input,
+ * so the tokenizer is positioned exactly at the end of the compressed data, once finished.
+ * @param tokenizer Tokenizer, positioned at the start of the compressed data
+ * @param inflater Inflater
+ * @param makeTruncatedError Creates the error thrown, if the input ends before the end of the compressed data
+ * @param entryLimiter Limits applying to the inflated data
+ */
+export async function* inflateFromTokenizer(tokenizer: ITokenizer, inflater: Inflater, makeTruncatedError: () => Error,
+                                            entryLimiter?: EntryLimiter): AsyncGenerator<Uint8Array, void> {
+  let peeked = 0;
+  let skipped = 0;
+  for (;;) {
+    const chunk = inflater.inflate();
+    if (chunk) {
+      entryLimiter?.addInflated(chunk.length);
+      yield chunk;
+    } else if (inflater.finished) {
+      break;
+    } else {
+      await tokenizer.ignore(peeked);
+      skipped += peeked;
+      const buffer = new Uint8Array(compressedChunkSize);
+      peeked = await tokenizer.peekBuffer(buffer, {mayBeLess: true});
+      if (peeked === 0) {
+        throw makeTruncatedError();
+      }
+      entryLimiter?.addCompressed(peeked);
+      inflater.push(buffer.subarray(0, peeked));
+    }
+  }
+  await tokenizer.ignore(inflater.bytesConsumed - skipped);
+}
+
+/**
+ * Inflate compressed data of known size, at the current position of the tokenizer, using the selected engine.
+ * Once finished, the tokenizer is positioned at the end of the compressed data.
+ * @param tokenizer Tokenizer, positioned at the start of the compressed data
+ * @param compressedSize Size of the compressed data
+ * @param engine Inflate engine
+ * @param makeTruncatedError Creates the error thrown, if the input ends before the end of the compressed data
+ * @param entryLimiter Limits applying to the inflated data
+ */
+export async function* inflateSizedFromTokenizer(tokenizer: ITokenizer, compressedSize: number, engine: InflateEngine | undefined,
+                                                 makeTruncatedError: () => Error, entryLimiter?: EntryLimiter): AsyncGenerator<Uint8Array, void> {
+  let remaining = compressedSize;
+  const compressedData = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (remaining === 0) {
+        controller.close();
+        return;
+      }
+      const chunk = new Uint8Array(Math.min(remaining, compressedChunkSize));
+      try {
+        await tokenizer.readBuffer(chunk);
+      } catch (err) {
+        throw isEndOfStreamError(err) ? makeTruncatedError() : err;
+      }
+      remaining -= chunk.length;
+      entryLimiter?.addCompressed(chunk.length);
+      controller.enqueue(chunk);
+    }
+  });
+  const reader = compressedData.pipeThrough(makeDeflateRawDecoder(engine)).getReader();
+  let done = false;
+  try {
+    while (!done) {
+      const result = await reader.read();
+      done = result.done;
+      if (result.value) {
+        entryLimiter?.addInflated(result.value.length);
+        yield result.value;
+      }
+    }
+  } finally {
+    if (!done) {
+      await reader.cancel().catch(() => undefined);
+    }
+  }
+}
+
+export interface IMemberInflateOptions<T> {
+  /**
+   * Compressed size, if known without decoding the compressed data
+   */
+  compressedSize?: number;
+  /**
+   * Engine used if the compressed size is known
+   */
+  engine?: InflateEngine;
+  /**
+   * Options of the built-in inflater, used if the compressed size is unknown
+   */
+  inflaterOptions?: IInflaterOptions;
+  makeTruncatedError: () => Error;
+  entryLimiter?: EntryLimiter;
+  /**
+   * Receives each chunk of inflated data, before it is returned
+   */
+  onInflated: (chunk: Uint8Array) => void;
+  /**
+   * Read the trailer, following the compressed data
+   */
+  readTrailer: () => Promise<T>;
+  /**
+   * Determine if the trailer confirms the known compressed size, by the checksum and size of the inflated data
+   */
+  confirms: (trailer: T) => boolean;
+}
+
+export interface IInflatedMember<T> {
+  trailer: T;
+  compressedSize: number;
+  /**
+   * True if the trailer did not confirm the known compressed size, after which the built-in inflater found the end of the compressed data
+   */
+  retried: boolean;
+}
+
+/**
+ * Inflate a member (like a gzip member), consisting of compressed data followed by a trailer, at the current position of the tokenizer.
+ * If the compressed size is known, the compressed data is inflated using the selected engine, and the compressed size is confirmed by the trailer.
+ * Otherwise, or if the trailer does not confirm the compressed size (requires random-access), the built-in inflater finds
+ * the exact end of the compressed data, skipping the data already inflated.
+ * Once finished, the tokenizer is positioned at the end of the trailer.
+ * @param tokenizer Tokenizer, positioned at the start of the compressed data
+ * @param options Options
+ * @return Trailer and compressed size
+ */
+export async function* inflateMemberFromTokenizer<T>(tokenizer: ITokenizer, options: IMemberInflateOptions<T>): AsyncGenerator<Uint8Array, IInflatedMember<T>> {
+  const {compressedSize, makeTruncatedError, entryLimiter} = options;
+  const compressedOffset = tokenizer.position;
+  let inflated = 0;
+  if (compressedSize !== undefined) {
+    const canRetry = tokenizer.supportsRandomAccess();
+    try {
+      for await (const chunk of inflateSizedFromTokenizer(tokenizer, compressedSize, options.engine, makeTruncatedError, entryLimiter)) {
+        inflated += chunk.length;
+        options.onInflated(chunk);
+        yield chunk;
+      }
+      const trailer = await options.readTrailer();
+      if (!canRetry || options.confirms(trailer)) {
+        return {trailer, compressedSize, retried: false};
+      }
+    } catch (err) {
+      if (!canRetry || err instanceof LimitExceededError) throw err;
+    }
+    (tokenizer as IRandomAccessTokenizer).setPosition(compressedOffset);
+  }
+
+  // The compressed data read with a known compressed size has already been counted
+  const retry = compressedSize !== undefined;
+  let skip = inflated;
+  const inflater = new Inflater(options.inflaterOptions);
+  for await (let chunk of inflateFromTokenizer(tokenizer, inflater, makeTruncatedError, retry ? undefined : entryLimiter)) {
+    if (skip > 0) {
+      const skipped = Math.min(skip, chunk.length);
+      skip -= skipped;
+      chunk = chunk.subarray(skipped);
+      if (chunk.length === 0) continue;
+    }
+    if (retry) {
+      entryLimiter?.addInflated(chunk.length);
+    }
+    options.onInflated(chunk);
+    yield chunk;
+  }
+  return {trailer: await options.readTrailer(), compressedSize: inflater.bytesConsumed, retried: retry};
+}
@@ -0,0 +1,149 @@
+import {
+  ArchiveError,
+  CorruptEntryError,
+  Crc32MismatchError,
+  EncryptedEntryError,
+  LimitExceededError,
+  TruncatedArchiveError,
+  UnsafeEntryNameError,
+  UnsupportedCompressionMethodError
+} from './Errors.js';
+import type { IGzipMember } from './GzipToken.js';
+
+/**
+ * Type of issue found verifying an archive
+ * - `format-error`: Invalid archive structure, like an unexpected signature
+ * - `truncated`: The end of the archive is reached unexpectedly
+ * - `missing-central-directory`: The end of central directory record is not found
+ * - `header-mismatch`: The local file header, or data-descriptor, does not match the central-directory
+ * - `crc-mismatch`: The CRC-32 of the inflated data does not match
+ * - `corrupt-data`: The data of the entry cannot be inflated, or the authentication code does not match
+ * - `overlapping-entries`: The entry overlaps with another entry
+ * - `offset-out-of-range`: The entry is located outside the area preceding the central-directory
+ * - `prepended-data`: Data precedes the first entry
+ * - `appended-data`: Data follows the end of the archive
+ * - `unreferenced-data`: Data between the entries, or between the last entry and the central-directory, is not referenced by the central-directory
+ * - `duplicate-name`: Name equal to the name of a preceding entry
+ * - `unsupported-compression-method`: No decoder is available for the compression method
+ * - `unsupported-feature`: The archive uses a feature which is not supported, like spanning or strong encryption
+ * - `encrypted`: The entry is encrypted, and cannot be verified without password, or the password is invalid
+ * - `limit-exceeded`: One of the configured limits is exceeded
+ * - `unsafe-name`: The entry name is unsafe, with path safety set to 'reject'
+ */
+export type VerificationIssueType =
+  'format-error'
+  | 'truncated'
+  | 'missing-central-directory'
+  | 'header-mismatch'
+  | 'crc-mismatch'
+  | 'corrupt-data'
+  | 'overlapping-entries'
+  | 'offset-out-of-range'
+  | 'prepended-data'
+  | 'appended-data'
+  | 'unreferenced-data'
+  | 'duplicate-name'
+  | 'unsupported-compression-method'
+  | 'unsupported-feature'
+  | 'encrypted'
+  | 'limit-exceeded'
+  | 'unsafe-name';
+
+export interface IVerificationIssue {
+  type: VerificationIssueType;
+  message: string;
+  /**
+   * Name of the entry, if the issue relates to an entry
+   */
+  filename?: string;
+  /**
+   * Offset in the archive, the issue relates to
+   */
+  offset?: number;
+}
+
+/**
+ * - `valid`: The CRC-32 of the inflated data matches
+ * - `invalid`: The CRC-32 of the inflated data does not match
+ * - `unverified`: The CRC-32 could not be verified, or is not stored (WinZip AE-2)
+ */
+export type Crc32Status = 'valid' | 'invalid' | 'unverified';
+
+export interface IZipEntryVerification {
+  filename: string;
+  /**
+   * Offset of the local file header
+   */
+  offset: number;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  crc32: Crc32Status;
+  issues: IVerificationIssue[];
+}
+
+export interface IZipVerificationReport {
+  /**
+   * True if no issues have been found, in the archive nor in any of the entries
+   */
+  valid: boolean;
+  /**
+   * True if the entries are verified against the central-directory, false if the local file headers are scanned
+   */
+  centralDirectory: boolean;
+  /**
+   * Number of bytes preceding the first entry, like a self-extracting stub
+   */
+  prependedDataLength: number;
+  /**
+   * Number of bytes following the end of central directory record, including its comment
+   */
+  appendedDataLength: number;
+  entries: IZipEntryVerification[];
+  /**
+   * Issues of the archive, not related to a single entry
+   */
+  issues: IVerificationIssue[];
+}
+
+export interface IGzipVerificationReport {
+  /**
+   * True if no issues have been found
+   */
+  valid: boolean;
+  /**
+   * Members verified
+   */
+  members: IGzipMember[];
+  /**
+   * Number of bytes following the last member
+   */
+  appendedDataLength: number;
+  issues: IVerificationIssue[];
+}
+
+/**
+ * Convert an error, raised while verifying, to an issue; any error which is not an `ArchiveError` is rethrown
+ */
+export function errorToIssue(err: unknown): IVerificationIssue {
+  if (!(err instanceof ArchiveError)) {
+    throw err;
+  }
+  return {
+    type: issueTypeOf(err),
+    message: err.message,
+    filename: err.filename,
+    offset: err.offset
+  };
+}
+
+function issueTypeOf(err: ArchiveError): VerificationIssueType {
+  if (err instanceof Crc32MismatchError) return 'crc-mismatch';
+  if (err instanceof EncryptedEntryError) return 'encrypted';
+  if (err instanceof UnsupportedCompressionMethodError) return 'unsupported-compression-method';
+  if (err instanceof LimitExceededError) return 'limit-exceeded';
+  if (err instanceof UnsafeEntryNameError) return 'unsafe-name';
+  if (err instanceof TruncatedArchiveError) return 'truncated';
+  if (err instanceof CorruptEntryError) return 'corrupt-data';
+  return 'format-error';
+}
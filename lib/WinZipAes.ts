@@ -0,0 +1,166 @@
+/**
+ * WinZip AES encryption (AE-1 / AE-2)
+ * Ref https://www.winzip.com/en/support/aes-encryption/
+ *
+ * Encrypted data layout:
+ *  salt                           8, 12 or 16 bytes (AES-128, AES-192, AES-256)
+ *  password verification value    2 bytes
+ *  encrypted file data            variable
+ *  authentication code            10 bytes (HMAC-SHA1 over the encrypted file data, truncated)
+ */
+
+import { HmacSha1 } from './HmacSha1.js';
+import { AuthenticationCodeError, EncryptedEntryError, InvalidPasswordError, TruncatedArchiveError } from './Errors.js';
+
+const pbkdf2Iterations = 1000;
+const passwordVerifierLength = 2;
+const authenticationCodeLength = 10;
+const aesBlockSize = 16;
+/**
+ * Maximum number of AES blocks encrypted simultaneously, to generate the key-stream
+ */
+const maxParallelBlocks = 1024;
+
+interface IWinZipAesKeys {
+  encryptionKey: CryptoKey;
+  hmac: HmacSha1;
+  passwordVerifier: Uint8Array;
+}
+
+/**
+ * Derive the encryption key, the authentication key and the password verifier, using PBKDF2-HMAC-SHA1
+ */
+async function deriveKeys(password: Uint8Array, salt: Uint8Array, keyLength: number): Promise<IWinZipAesKeys> {
+  const subtle = getSubtleCrypto();
+  const passwordKey = await subtle.importKey('raw', password as Uint8Array<ArrayBuffer>, 'PBKDF2', false, ['deriveBits']);
+  const derivedBits = await subtle.deriveBits({
+    name: 'PBKDF2',
+    salt: salt as Uint8Array<ArrayBuffer>,
+    iterations: pbkdf2Iterations,
+    hash: 'SHA-1'
+  }, passwordKey, (2 * keyLength + passwordVerifierLength) * 8);
+  const derived = new Uint8Array(derivedBits);
+  return {
+    encryptionKey: await subtle.importKey('raw', derived.subarray(0, keyLength), 'AES-CTR', false, ['encrypt']),
+    hmac: new HmacSha1(derived.subarray(keyLength, 2 * keyLength)),
+    passwordVerifier: derived.subarray(2 * keyLength)
+  };
+}
+
+function getSubtleCrypto(): SubtleCrypto {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('WinZip AES decryption requires WebCrypto (crypto.subtle)');
+  }
+  return globalThis.crypto.subtle;
+}
+
+/**
+ * AES-CTR, using a little-endian counter starting at 1, which is not supported by WebCrypto directly.
+ * WebCrypto AES-CTR increments the counter block big-endian, and provides no AES-ECB:
+ * consecutive little-endian counter blocks never form a big-endian sequence, and AES-CBC chains the blocks.
+ * Each key-stream block is therefore generated by a separate AES-CTR call, encrypting a single block of zeros with the counter block;
+ * the calls of a batch of blocks are issued simultaneously.
+ * @param key AES key
+ * @param data Data to encrypt or decrypt, in place
+ * @param firstBlock Block number of the first block of data
+ */
+async function aesCtrLittleEndian(key: CryptoKey, data: Uint8Array, firstBlock: number): Promise<void> {
+  const subtle = getSubtleCrypto();
+  const zeroBlock = new Uint8Array(aesBlockSize);
+  const nrOfBlocks = Math.ceil(data.length / aesBlockSize);
+  for (let batch = 0; batch < nrOfBlocks; batch += maxParallelBlocks) {
+    const batchSize = Math.min(maxParallelBlocks, nrOfBlocks - batch);
+    const keyStreamBlocks = await Promise.all(Array.from({length: batchSize}, (_, i) => {
+      const counter = new Uint8Array(aesBlockSize);
+      const view = new DataView(counter.buffer);
+      const blockNr = firstBlock + batch + i;
+      view.setUint32(0, blockNr >>> 0, true);
+      view.setUint32(4, Math.floor(blockNr / 0x100000000), true);
+      return subtle.encrypt({name: 'AES-CTR', counter, length: 128}, key, zeroBlock);
+    }));
+    keyStreamBlocks.forEach((keyStreamBlock, i) => {
+      const keyStream = new Uint8Array(keyStreamBlock);
+      const offset = (batch + i) * aesBlockSize;
+      const end = Math.min(offset + aesBlockSize, data.length);
+      for (let j = offset; j < end; ++j) {
+        data[j] ^= keyStream[j - offset];
+      }
+    });
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b;
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+/**
+ * Create a stream, decrypting WinZip AES encrypted data
+ * @param password Password
+ * @param strength AES encryption strength: 1 = AES-128, 2 = AES-192, 3 = AES-256
+ * @param filename Name of the entry, used in errors
+ */
+export function makeWinZipAesDecryptionStream(password: Uint8Array, strength: number, filename: string): TransformStream<Uint8Array, Uint8Array> {
+  if (strength < 1 || strength > 3) {
+    throw new EncryptedEntryError(filename, `Unsupported WinZip AES encryption strength ${strength} of "${filename}"`);
+  }
+  const keyLength = 8 + strength * 8;
+  const saltLength = keyLength / 2;
+  const headerLength = saltLength + passwordVerifierLength;
+
+  let keys: IWinZipAesKeys | undefined;
+  let pending: Uint8Array = new Uint8Array(0);
+  let blockNr = 1;
+
+  async function decrypt(aesKeys: IWinZipAesKeys, data: Uint8Array): Promise<Uint8Array> {
+    aesKeys.hmac.update(data);
+    const plain = data.slice();
+    await aesCtrLittleEndian(aesKeys.encryptionKey, plain, blockNr);
+    blockNr += plain.length / aesBlockSize;
+    return plain;
+  }
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      let data = concat(pending, chunk);
+      if (!keys) {
+        if (data.length < headerLength) {
+          pending = data;
+          return;
+        }
+        keys = await deriveKeys(password, data.subarray(0, saltLength), keyLength);
+        const verifier = data.subarray(saltLength, headerLength);
+        if (verifier[0] !== keys.passwordVerifier[0] || verifier[1] !== keys.passwordVerifier[1]) {
+          throw new InvalidPasswordError(filename);
+        }
+        data = data.subarray(headerLength);
+      }
+      // Hold back the authentication code, and decrypt whole AES blocks only
+      const available = Math.max(0, data.length - authenticationCodeLength);
+      const len = available - available % aesBlockSize;
+      pending = data.slice(len);
+      if (len > 0) {
+        controller.enqueue(await decrypt(keys, data.subarray(0, len)));
+      }
+    },
+    async flush(controller) {
+      if (!keys || pending.length < authenticationCodeLength) {
+        throw new TruncatedArchiveError(`Truncated WinZip AES encrypted data of "${filename}"`, {filename});
+      }
+      const dataLength = pending.length - authenticationCodeLength;
+      if (dataLength > 0) {
+        controller.enqueue(await decrypt(keys, pending.subarray(0, dataLength)));
+      }
+      const authenticationCode = pending.subarray(dataLength);
+      const expected = keys.hmac.digest();
+      for (let i = 0; i < authenticationCodeLength; ++i) {
+        if (authenticationCode[i] !== expected[i]) {
+          throw new AuthenticationCodeError(filename);
+        }
+      }
+    }
+  });
+}
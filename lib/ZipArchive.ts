@@ -0,0 +1,94 @@
+import type { ITokenizer } from 'strtok3';
+import { ArchiveUsageError, ZipFormatError } from './Errors.js';
+import { type IZipHandlerOptions, ZipHandler } from './ZipHandler.js';
+import type { IFileHeader } from './ZipToken.js';
+
+/**
+ * Random access to the entries of a ZIP archive, based on the central-directory.
+ * Entries can be read in any order, and more than once.
+ */
+export class ZipArchive {
+
+  private entriesByName: Map<string, IFileHeader> | undefined;
+
+  /**
+   * Open a ZIP archive, by reading the central-directory
+   * @param tokenizer Tokenizer, supporting random-access
+   * @param options ZIP handler options
+   */
+  static async open(tokenizer: ITokenizer, options?: IZipHandlerOptions): Promise<ZipArchive> {
+    if (!tokenizer.supportsRandomAccess()) {
+      throw new ArchiveUsageError('Failed to read ZIP central-directory, random-access to the archive is required');
+    }
+    const zipHandler = new ZipHandler(tokenizer, options);
+    const fileHeaders = await zipHandler.readCentralDirectory();
+    if (!fileHeaders) {
+      throw new ZipFormatError('Failed to read ZIP central-directory, end of central directory record not found');
+    }
+    return new ZipArchive(zipHandler, fileHeaders);
+  }
+
+  private constructor(private zipHandler: ZipHandler, private fileHeaders: IFileHeader[]) {
+  }
+
+  /**
+   * Comment of the ZIP archive
+   */
+  public get comment(): string {
+    return this.zipHandler.archiveComment ?? '';
+  }
+
+  /**
+   * List the entries, in the order of the central-directory
+   */
+  public entries(): IFileHeader[] {
+    return this.fileHeaders;
+  }
+
+  /**
+   * Lookup an entry by filename
+   * @param filename Filename, including the path within the archive
+   * @return Central-directory file header, undefined if not found
+   */
+  public getEntry(filename: string): IFileHeader | undefined {
+    if (!this.entriesByName) {
+      this.entriesByName = new Map();
+      for (const fileHeader of this.fileHeaders) {
+        if (!this.entriesByName.has(fileHeader.filename)) {
+          this.entriesByName.set(fileHeader.filename, fileHeader);
+        }
+      }
+    }
+    return this.entriesByName.get(filename);
+  }
+
+  /**
+   * Read the inflated data of an entry
+   * @param entry Central-directory file header or filename
+   * @return Inflated data
+   */
+  public async openEntry(entry: IFileHeader | string): Promise<Uint8Array> {
+    return this.zipHandler.openEntry(this.resolveEntry(entry));
+  }
+
+  /**
+   * Open the inflated data of an entry as a stream.
+   * The compressed data is read on demand; streams of multiple entries may be read simultaneously.
+   * @param entry Central-directory file header or filename
+   * @return Stream of inflated data
+   */
+  public openEntryStream(entry: IFileHeader | string): Promise<ReadableStream<Uint8Array>> {
+    return this.zipHandler.openEntryStream(this.resolveEntry(entry));
+  }
+
+  private resolveEntry(entry: IFileHeader | string): IFileHeader {
+    if (typeof entry === 'string') {
+      const fileHeader = this.getEntry(entry);
+      if (!fileHeader) {
+        throw new ArchiveUsageError(`Entry not found in ZIP archive: ${entry}`, {filename: entry});
+      }
+      return fileHeader;
+    }
+    return entry;
+  }
+}
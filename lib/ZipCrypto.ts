@@ -0,0 +1,79 @@
+/**
+ * Traditional PKWARE encryption (ZipCrypto)
+ * Ref https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT, section 6.1
+ */
+
+import { crc32Table } from './Crc32.js';
+import { InvalidPasswordError, TruncatedArchiveError } from './Errors.js';
+
+/**
+ * Length of the encryption header, preceding the encrypted data
+ */
+export const encryptionHeaderLength = 12;
+
+class ZipCryptoKeys {
+
+  private key0 = 0x12345678;
+  private key1 = 0x23456789;
+  private key2 = 0x34567890;
+
+  constructor(password: Uint8Array) {
+    for (const byte of password) {
+      this.update(byte);
+    }
+  }
+
+  public decryptByte(cipherByte: number): number {
+    const temp = (this.key2 | 2) & 0xFFFF;
+    const plainByte = (cipherByte ^ ((temp * (temp ^ 1)) >>> 8)) & 0xFF;
+    this.update(plainByte);
+    return plainByte;
+  }
+
+  private update(byte: number): void {
+    this.key0 = crc32Byte(this.key0, byte);
+    this.key1 = (this.key1 + (this.key0 & 0xFF)) >>> 0;
+    this.key1 = (Math.imul(this.key1, 134775813) + 1) >>> 0;
+    this.key2 = crc32Byte(this.key2, this.key1 >>> 24);
+  }
+}
+
+function crc32Byte(crc: number, byte: number): number {
+  return (crc32Table[(crc ^ byte) & 0xFF] ^ (crc >>> 8)) >>> 0;
+}
+
+/**
+ * Create a stream, decrypting ZipCrypto encrypted data
+ * @param password Password
+ * @param checkByte Expected value of the last byte of the decrypted encryption header,
+ * the high-order byte of the CRC-32, or the high-order byte of the file time if a data-descriptor is used
+ * @param filename Name of the entry, used in the error
+ */
+export function makeZipCryptoDecryptionStream(password: Uint8Array, checkByte: number, filename: string): TransformStream<Uint8Array, Uint8Array> {
+  const keys = new ZipCryptoKeys(password);
+  let headerBytesLeft = encryptionHeaderLength;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const plain = new Uint8Array(chunk.length);
+      for (let i = 0; i < chunk.length; ++i) {
+        plain[i] = keys.decryptByte(chunk[i]);
+      }
+      let offset = 0;
+      if (headerBytesLeft > 0) {
+        offset = Math.min(headerBytesLeft, plain.length);
+        headerBytesLeft -= offset;
+        if (headerBytesLeft === 0 && plain[offset - 1] !== checkByte) {
+          throw new InvalidPasswordError(filename);
+        }
+      }
+      if (offset < plain.length) {
+        controller.enqueue(plain.subarray(offset));
+      }
+    },
+    flush() {
+      if (headerBytesLeft > 0) {
+        throw new TruncatedArchiveError(`Truncated encryption header of "${filename}"`, {filename});
+      }
+    }
+  });
+}
@@ -0,0 +1,74 @@
+import type { ILocalFileHeader } from './ZipToken.js';
+
+/**
+ * Opens the inflated data of an entry
+ */
+export type EntryDataOpener = () => Promise<ReadableStream<Uint8Array>>;
+
+/**
+ * Entry of a ZIP archive, as yielded by `ZipHandler.entries()`.
+ * The data is only read and inflated when requested.
+ */
+export class ZipEntry {
+
+  /**
+   * @param header Local file header, or central-directory file header if the central-directory is used
+   * @param openData Opens the inflated data
+   */
+  constructor(public readonly header: ILocalFileHeader, private openData: EntryDataOpener) {
+  }
+
+  get filename(): string {
+    return this.header.filename;
+  }
+
+  /**
+   * Stream the inflated data
+   */
+  public stream(): ReadableStream<Uint8Array> {
+    const openData = this.openData;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (!reader) {
+          reader = (await openData()).getReader();
+        }
+        const result = await reader.read();
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      },
+      async cancel(reason) {
+        await reader?.cancel(reason);
+      }
+    });
+  }
+
+  /**
+   * Read the inflated data
+   */
+  public async arrayBuffer(): Promise<ArrayBuffer> {
+    const data = await collect(await this.openData());
+    return data.buffer as ArrayBuffer;
+  }
+
+  /**
+   * Read the inflated data, decoded as UTF-8 text
+   */
+  public async text(): Promise<string> {
+    return new TextDecoder().decode(await collect(await this.openData()));
+  }
+}
+
+/**
+ * Collect the inflated data of an entry
+ * @param output Stream of inflated data, raising an `ArchiveError` on failure
+ */
+export async function collect(output: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  // Collect decompressed bytes from the output stream
+  const response = new Response(output);
+  const buffer = await response.arrayBuffer();
+  return new Uint8Array(buffer);
+}
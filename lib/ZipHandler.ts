@@ -1,17 +1,52 @@
 import type { IRandomAccessTokenizer, ITokenizer } from 'strtok3';
-import { StringType, UINT32_LE } from 'token-types';
+import { UINT32_LE, Uint8ArrayType } from 'token-types';
 import initDebug from 'debug';
 import {
   DataDescriptor,
+  DataDescriptor64,
+  decodeFileAttributes,
   EndOfCentralDirectoryRecordToken,
   FileHeader,
+  type IDataDescriptor,
   type IFileHeader,
   type ILocalFileHeader,
-  LocalFileHeaderToken, Signature
+  LocalFileHeaderToken,
+  Signature,
+  UnsignedDataDescriptor,
+  UnsignedDataDescriptor64,
+  WinZipAesCompressionMethod,
+  Zip64EndOfCentralDirectoryLocatorToken,
+  Zip64EndOfCentralDirectoryRecordToken
 } from "./ZipToken.js";
+import { CompressedDataReader, indexOf } from './CompressedDataReader.js';
+import { DataDescriptorBoundary, type IEntryBoundary, InflateBoundary } from './EntryBoundary.js';
+import { applyExtraField } from './ExtraField.js';
+import { crc32 } from './Crc32.js';
+import {
+  ArchiveError,
+  ArchiveUsageError,
+  Crc32MismatchError,
+  EncryptedEntryError,
+  isEndOfStreamError,
+  LimitExceededError,
+  toEntryError,
+  TruncatedArchiveError,
+  UnsafeEntryNameError,
+  UnsupportedCompressionMethodError,
+  ZipFormatError
+} from './Errors.js';
+import { makeZipCryptoDecryptionStream } from './ZipCrypto.js';
+import { makeWinZipAesDecryptionStream } from './WinZipAes.js';
+import { type InflateEngine, makeDeflateRawDecoder, makeInflateStream } from './Inflater.js';
+import { collect, ZipEntry } from './ZipEntry.js';
+import { makeTextDecoder } from './TextDecoding.js';
+import { PathCollisionDetector, type PathSafetyMode, sanitizePath } from './PathSafety.js';
+import { type IInflateLimits, InflateLimiter } from './InflateLimits.js';
+import { errorToIssue, type IZipEntryVerification, type IZipVerificationReport, type VerificationIssueType } from './Verification.js';
 
 export type InflateFileFilterResult = {
-  handler: InflatedDataHandler | false; // Function to handle extracted file data
+  handler?: InflatedDataHandler | false; // Function to handle extracted file data
+  streamHandler?: InflatedStreamHandler; // Function to handle extracted file data as a stream, instead of `handler`
   stop?: boolean;               // Signal to stop processing further files
 };
 
@@ -27,7 +62,9 @@ const debug = initDebug('tokenizer:inflate');
 
 const syncBufferSize = 256 * 1024;
 
-const ddSignatureArray = signatureToArray(Signature.DataDescriptor);
+const utf8Decoder = new TextDecoder('utf-8');
+
+const lfhSignatureArray = signatureToArray(Signature.LocalFileHeader);
 const eocdSignatureBytes = signatureToArray(Signature.EndOfCentralDirectory);
 
 /**
@@ -37,11 +74,154 @@ export type InflateFileFilter = (file: ILocalFileHeader) => InflateFileFilterRes
 
 export type InflatedDataHandler = (fileData: Uint8Array) => Promise<void>;
 
+/**
+ * Handler receiving the inflated data as a stream, the compressed data is read from the tokenizer on demand.
+ * The stream has to be consumed before the returned promise resolves, any remaining data is skipped.
+ */
+export type InflatedStreamHandler = (fileData: ReadableStream<Uint8Array>) => Promise<void>;
+
+/**
+ * Creates a stream decoding the compressed data of an entry
+ */
+export type CompressionMethodDecoder = (zipHeader: ILocalFileHeader) => ReadableWritablePair<Uint8Array, Uint8Array>;
+
+/**
+ * Provides the CRC-32 to verify the inflated data against, after all data has been inflated
+ * @param uncompressedSize Number of bytes inflated, which may be verified as well
+ */
+type ExpectedCrc32 = (uncompressedSize: number) => number | Promise<number>;
+
+/**
+ * Receives an error recovered from, in recovery mode
+ */
+export type RecoveredErrorHandler = (error: ArchiveError) => void;
+
+/**
+ * Local file header, found by scanning the local file headers
+ */
+interface IScannedLocalFileHeader {
+  header: ILocalFileHeader;
+  /**
+   * Position of the local file header
+   */
+  offset: number;
+}
+
+/**
+ * Location of the central-directory, and of the end of central directory record
+ */
+interface ICentralDirectoryLocation {
+  /**
+   * Offset of the central-directory
+   */
+  offset: number;
+  size: number;
+  /**
+   * End of the end of central directory record, including the archive comment
+   */
+  end: number;
+  /**
+   * True if the archive spans multiple disks (files)
+   */
+  spanned: boolean;
+}
+
+/**
+ * Compressed data of an entry, found by scanning the local file headers
+ */
+interface ILocalEntry {
+  compressedData: CompressedDataReader;
+  expectedCrc32: ExpectedCrc32;
+  /**
+   * Move to the end of the entry, by reading the data-descriptor if present
+   */
+  close: () => Promise<void>;
+}
+
+export interface IZipHandlerOptions {
+  /**
+   * Verify the CRC-32 of the inflated data, against the CRC-32 of the central-directory or data-descriptor.
+   * A mismatch results in a `Crc32MismatchError`.
+   * Default: true
+   */
+  verifyCrc?: boolean;
+  /**
+   * Password, used to decrypt encrypted entries.
+   * If not provided, extracting an encrypted entry results in an `EncryptedEntryError`.
+   */
+  password?: string | Uint8Array;
+  /**
+   * Decoders of additional compression methods, mapped by compression method ID.
+   * For example 12 (bzip2), 14 (LZMA), 93 (Zstandard) or 95 (XZ).
+   * Extracting an entry compressed with an unknown method results in an `UnsupportedCompressionMethodError`.
+   */
+  compressionMethods?: Record<number, CompressionMethodDecoder>;
+  /**
+   * Engine inflating Deflate (method 8) compressed entries, default 'auto':
+   * the native `DecompressionStream`, falling back to the built-in TypeScript inflater if `DecompressionStream` is not available.
+   */
+  inflater?: InflateEngine;
+  /**
+   * Encoding of filenames and comments, which are not flagged as UTF-8 (general purpose bit 11).
+   * 'cp437', or any encoding label supported by `TextDecoder`, like 'shift_jis' or 'ibm866'.
+   * Default: 'cp437'
+   */
+  filenameEncoding?: string;
+  /**
+   * Guard against entry names which are unsafe to use as a file system path (zip-slip), disabled by default.
+   * - 'sanitize': Replace the filename with a safe relative path, the issues found are reported in `pathIssues`
+   * - 'reject': Throw an `UnsafeEntryNameError` for an unsafe entry name
+   * Within the central-directory, duplicate names and names only differing in case are detected as well.
+   */
+  pathSafety?: PathSafetyMode;
+  /**
+   * Limits protecting against decompression bombs, no limits apply by default.
+   * Exceeding a limit stops inflating, with a `LimitExceededError`.
+   */
+  limits?: IInflateLimits;
+  /**
+   * Recover from damaged or truncated archives, salvaging the readable entries, disabled by default.
+   * A damaged central-directory falls back to scanning the local file headers, a damaged local file header
+   * is skipped by scanning for the next local file header signature, and entries which cannot be extracted are skipped.
+   * Errors recovered from are reported to `onError`. A `LimitExceededError` or `UnsafeEntryNameError` is never recovered from.
+   */
+  recover?: boolean;
+  /**
+   * Receives the errors recovered from, in recovery mode
+   */
+  onError?: RecoveredErrorHandler;
+}
+
 export class ZipHandler {
 
   private syncBuffer = new Uint8Array(syncBufferSize);
 
-  constructor(private tokenizer: ITokenizer) {
+  /**
+   * Decodes filenames and comments, which are not UTF-8 encoded
+   */
+  private decodeLegacyText = makeTextDecoder(this.options.filenameEncoding ?? 'cp437');
+
+  private builtInDecoders: Record<number, CompressionMethodDecoder> = {
+    8: () => makeDeflateRawDecoder(this.options.inflater),
+    9: () => makeInflateStream({deflate64: true})
+  };
+
+  /**
+   * Comment of the ZIP archive, available after reading the central-directory
+   */
+  public archiveComment: string | undefined;
+
+  /**
+   * Enforces the limits over all entries of the archive, if limits are provided
+   */
+  private limiter = this.options.limits ? new InflateLimiter(this.options.limits) : undefined;
+
+  /**
+   * Available after reading the central-directory
+   */
+  private centralDirectoryLocation: ICentralDirectoryLocation | undefined;
+
+  constructor(private tokenizer: ITokenizer, private options: IZipHandlerOptions = {}) {
   }
 
   async isZip(): Promise<boolean> {
@@ -84,16 +264,36 @@ export class ZipHandler {
     if (offset > 0) {
       debug('Central-directory 32-bit signature found');
       const eocdHeader = await this.tokenizer.readToken(EndOfCentralDirectoryRecordToken, offset);
+      this.archiveComment = this.decodeLegacyText(await this.tokenizer.readToken(new Uint8ArrayType(eocdHeader.zipFileCommentLength)));
+      let nrOfEntries = eocdHeader.nrOfEntriesOfSize;
+      let offsetOfStartOfCd = eocdHeader.offsetOfStartOfCd;
+      let sizeOfCd = eocdHeader.sizeOfCd;
+      const zip64Eocd = await this.readZip64EndOfCentralDirectoryRecord(offset);
+      if (zip64Eocd) {
+        debug('Central-directory 64-bit signature found');
+        nrOfEntries = Number(zip64Eocd.nrOfEntriesOfSize);
+        offsetOfStartOfCd = Number(zip64Eocd.offsetOfStartOfCd);
+        sizeOfCd = Number(zip64Eocd.sizeOfCd);
+      }
+      if (nrOfEntries * FileHeader.len > sizeOfCd) {
+        throw new ZipFormatError(`Number of entries (${nrOfEntries}) exceeds the size of the central-directory`, {offset});
+      }
+      this.limiter?.checkCentralDirectorySize(sizeOfCd);
+      this.limiter?.checkEntries(nrOfEntries);
+      this.centralDirectoryLocation = {
+        offset: offsetOfStartOfCd,
+        size: sizeOfCd,
+        end: offset + EndOfCentralDirectoryRecordToken.len + eocdHeader.zipFileCommentLength,
+        spanned: eocdHeader.nrOfThisDisk !== 0 || eocdHeader.nrOfThisDiskWithTheStart !== 0 || (zip64Eocd !== undefined && zip64Eocd.nrOfThisDisk !== 0)
+      };
       const files: IFileHeader[] = [];
-      (this.tokenizer as IRandomAccessTokenizer).setPosition(eocdHeader.offsetOfStartOfCd);
-      for (let n = 0; n < eocdHeader.nrOfEntriesOfSize; ++n) {
-        const entry = await this.tokenizer.readToken(FileHeader);
-        if (entry.signature !== Signature.CentralFileHeader) {
-          throw new Error('Expected Central-File-Header signature');
-        }
-        entry.filename = await this.tokenizer.readToken(new StringType(entry.filenameLength, 'utf-8'));
-        await this.tokenizer.ignore(entry.extraFieldLength);
-        await this.tokenizer.ignore(entry.fileCommentLength);
+      const collisionDetector = new PathCollisionDetector();
+      (this.tokenizer as IRandomAccessTokenizer).setPosition(offsetOfStartOfCd);
+      for (let n = 0; n < nrOfEntries; ++n) {
+        const entryOffset = this.tokenizer.position;
+        const entry = await this.readCentralDirectoryFileHeader(entryOffset);
+        this.applyPathSafety(entry, entryOffset, collisionDetector);
+        decodeFileAttributes(entry);
         files.push(entry);
         debug(`Add central-directory file-entry: n=${n + 1}/${files.length}: filename=${files[n].filename}`);
       }
@@ -103,8 +303,93 @@ export class ZipHandler {
     (this.tokenizer as IRandomAccessTokenizer).setPosition(pos);
   }
 
+  /**
+   * Read a central-directory file header, including the filename, extra field and comment
+   * @param offset Position of the file header, which should be the current tokenizer position
+   */
+  private async readCentralDirectoryFileHeader(offset: number): Promise<IFileHeader> {
+    try {
+      const entry = await this.tokenizer.readToken(FileHeader);
+      if (entry.signature !== Signature.CentralFileHeader) {
+        throw new ZipFormatError(`Expected Central-File-Header signature at position ${offset}`, {offset});
+      }
+      await this.readFilenameAndExtraField(entry);
+      entry.comment = this.decodeText(entry, await this.tokenizer.readToken(new Uint8ArrayType(entry.fileCommentLength)));
+      return entry;
+    } catch (err) {
+      if (isEndOfStreamError(err)) {
+        throw new TruncatedArchiveError('Unexpected end of ZIP archive, reading the central-directory', {offset, cause: err});
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Read the ZIP64 end of central directory record, via the locator preceding the 32-bit end of central directory record
+   * @param eocdOffset Offset of the (32-bit) end of central directory record
+   * @return ZIP64 end of central directory record, undefined if the archive is not a ZIP64 archive
+   */
+  private async readZip64EndOfCentralDirectoryRecord(eocdOffset: number) {
+    const locatorOffset = eocdOffset - Zip64EndOfCentralDirectoryLocatorToken.len;
+    if (locatorOffset < 0) return;
+    const locator = await this.tokenizer.readToken(Zip64EndOfCentralDirectoryLocatorToken, locatorOffset);
+    if (locator.signature !== Signature.Zip64EndOfCentralDirectoryLocator) return;
+    const zip64Eocd = await this.tokenizer.readToken(Zip64EndOfCentralDirectoryRecordToken, Number(locator.offsetOfZip64Eocd));
+    if (zip64Eocd.signature !== Signature.Zip64EndOfCentralDirectory) {
+      throw new ZipFormatError('Expected ZIP64 End-Of-Central-Directory signature', {offset: Number(locator.offsetOfZip64Eocd)});
+    }
+    return zip64Eocd;
+  }
+
+  /**
+   * Read and decode the filename and the extra field following the filename.
+   * The Unicode path extra field takes precedence over a filename which is not UTF-8 encoded, if it matches the CRC-32 of the filename.
+   * @param header Local or central directory file header
+   * @param position Position of the filename, default is the current tokenizer position
+   */
+  private async readFilenameAndExtraField(header: ILocalFileHeader | IFileHeader, position = this.tokenizer.position): Promise<void> {
+    const filename = await this.tokenizer.readToken(new Uint8ArrayType(header.filenameLength), position);
+    header.filename = this.decodeText(header, filename);
+    if (header.extraFieldLength === 0) return;
+    applyExtraField(header, await this.tokenizer.readToken(new Uint8ArrayType(header.extraFieldLength), position + header.filenameLength));
+    const unicodePath = header.extraFields?.unicodePath;
+    if (!header.utf8 && unicodePath?.version === 1 && unicodePath.crc32 === crc32(filename)) {
+      header.filename = unicodePath.path;
+    }
+  }
+
+  /**
+   * Sanitize or reject an unsafe filename, if path safety is enabled
+   * @param header Local or central directory file header
+   * @param offset Position of the header
+   * @param collisionDetector Detects duplicate names and case collisions within the central-directory
+   */
+  private applyPathSafety(header: ILocalFileHeader, offset: number, collisionDetector?: PathCollisionDetector): void {
+    if (!this.options.pathSafety) return;
+    const {path, issues} = sanitizePath(header.filename);
+    const collision = collisionDetector?.add(path);
+    if (collision) {
+      issues.push(collision);
+    }
+    if (issues.length > 0 && this.options.pathSafety === 'reject') {
+      throw new UnsafeEntryNameError(header.filename, issues, offset);
+    }
+    if (path !== header.filename) {
+      header.originalFilename = header.filename;
+      header.filename = path;
+    }
+    header.pathIssues = issues;
+  }
+
+  /**
+   * Decode a filename or comment, according to the UTF-8 (EFS) flag of the header
+   */
+  private decodeText(header: ILocalFileHeader, data: Uint8Array): string {
+    return header.utf8 ? utf8Decoder.decode(data) : this.decodeLegacyText(data);
+  }
+
   async unzip(fileCb: InflateFileFilter): Promise<void> {
-    const entries = await this.readCentralDirectory();
+    const entries = await this.readCentralDirectoryOrRecover();
     if (entries) {
       // Use Central Directory to iterate over files
       return this.iterateOverCentralDirectory(entries, fileCb);
@@ -113,183 +398,752 @@ export class ZipHandler {
     // Scan Zip files for local-file-header
     let stop = false;
     do {
-      const zipHeader = await this.readLocalFileHeader();
-      if (!zipHeader)
+      const scanned = await this.readNextLocalFileHeader();
+      if (!scanned)
         break;
+      const {header: zipHeader, offset} = scanned;
+      this.limiter?.countEntry();
 
       const next = fileCb(zipHeader);
       stop = !!next.stop;
 
-      let fileData: Uint8Array | undefined ;
+      const localEntry = this.openLocalEntry(zipHeader);
+      try {
+        await this.extract(zipHeader, offset, localEntry.compressedData, next, localEntry.expectedCrc32);
+        await localEntry.close();
+      } catch (err) {
+        this.recoverFrom(err);
+        await this.skipLocalEntry(localEntry);
+      }
+    } while (!stop);
+  }
 
-      await this.tokenizer.ignore(zipHeader.extraFieldLength);
+  /**
+   * Read the central-directory.
+   * In recovery mode, a damaged central-directory is reported, and undefined is returned to fall back to scanning the local file headers.
+   */
+  private async readCentralDirectoryOrRecover(): Promise<IFileHeader[] | undefined> {
+    const pos = this.tokenizer.position;
+    try {
+      return await this.readCentralDirectory();
+    } catch (err) {
+      this.recoverFrom(err);
+      debug('Failed to read the central-directory, falling back to scanning the local file headers');
+      (this.tokenizer as IRandomAccessTokenizer).setPosition(pos);
+    }
+  }
 
-      if (zipHeader.dataDescriptor && zipHeader.compressedSize === 0) {
-        const chunks: Uint8Array[] = [];
-        let len = syncBufferSize;
+  /**
+   * Read the local file header at the current position.
+   * In recovery mode, a damaged local file header is reported, and skipped by scanning for the next local file header signature.
+   * @return Local file header, undefined if the central-directory, or in recovery mode the end of the input, has been reached
+   */
+  private async readNextLocalFileHeader(): Promise<IScannedLocalFileHeader | undefined> {
+    for (;;) {
+      const offset = this.tokenizer.position;
+      if (this.options.recover && await this.isEndOfInput()) {
+        return;
+      }
+      try {
+        const header = await this.readLocalFileHeader(offset);
+        return header ? {header, offset} : undefined;
+      } catch (err) {
+        this.recoverFrom(err);
+        if (!await this.synchronize(offset + 1)) {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Move past an entry which could not be extracted, in recovery mode.
+   * As the entry may have been read partially, the next local file header is found by synchronizing on its signature.
+   */
+  private async skipLocalEntry(localEntry: ILocalEntry): Promise<void> {
+    try {
+      await localEntry.compressedData.skip();
+      await localEntry.close();
+    } catch (err) {
+      debug(`Failed to skip the entry: ${err}`);
+    }
+    await this.synchronize(this.tokenizer.position);
+  }
 
-        debug('Compressed-file-size unknown, scanning for next data-descriptor-signature....');
-        let nextHeaderIndex = -1;
-        while (nextHeaderIndex < 0 && len === syncBufferSize) {
+  /**
+   * Report an error in recovery mode, any other error is rethrown
+   */
+  private recoverFrom(err: unknown): void {
+    if (!this.options.recover || !(err instanceof ArchiveError) || err instanceof LimitExceededError || err instanceof UnsafeEntryNameError) {
+      throw err;
+    }
+    debug(`Recovered from error: ${err.message}`);
+    this.options.onError?.(err);
+  }
 
-          len = await this.tokenizer.peekBuffer(this.syncBuffer, {mayBeLess: true});
-          nextHeaderIndex = indexOf(this.syncBuffer.subarray(0, len), ddSignatureArray);
-          const size = nextHeaderIndex >= 0 ? nextHeaderIndex : len;
+  private async isEndOfInput(): Promise<boolean> {
+    const buffer = new Uint8Array(1);
+    return await this.tokenizer.peekBuffer(buffer, {mayBeLess: true}) === 0;
+  }
 
-          if (next.handler) {
-            const data = new Uint8Array(size);
-            await this.tokenizer.readBuffer(data);
-            chunks.push(data);
-          } else {
-            // Move position to the next header if found, skip the whole buffer otherwise
-            await this.tokenizer.ignore(size);
+  /**
+   * Scan for the next local file header signature, to resynchronize after corruption
+   * @param position Position to start scanning from
+   * @return True if a local file header signature has been found, the tokenizer is positioned at the signature
+   */
+  private async synchronize(position: number): Promise<boolean> {
+    if (position > this.tokenizer.position) {
+      await this.tokenizer.ignore(position - this.tokenizer.position);
+    }
+    for (;;) {
+      const len = await this.tokenizer.peekBuffer(this.syncBuffer, {mayBeLess: true});
+      const index = indexOf(this.syncBuffer.subarray(0, len), lfhSignatureArray);
+      if (index !== -1) {
+        await this.tokenizer.ignore(index);
+        debug(`Synchronized on local file header signature at position ${this.tokenizer.position}`);
+        return true;
+      }
+      if (len < this.syncBuffer.length) {
+        await this.tokenizer.ignore(len);
+        return false;
+      }
+      // Keep the tail, the signature may span the boundary of the sync-buffer
+      await this.tokenizer.ignore(len - lfhSignatureArray.length + 1);
+    }
+  }
+
+  /**
+   * Iterate over the entries of the ZIP archive.
+   * If the central-directory can be read, the entries are listed in central-directory order, and the data of each entry
+   * can be read at any time. Otherwise, the local file headers are scanned sequentially, and the data of an entry
+   * has to be read before advancing to the next entry.
+   * Exiting the loop early leaves the tokenizer positioned at the next local file header.
+   */
+  async *entries(): AsyncGenerator<ZipEntry, void, undefined> {
+    const fileHeaders = await this.readCentralDirectoryOrRecover();
+    if (fileHeaders) {
+      for (const fileHeader of fileHeaders) {
+        yield new ZipEntry(fileHeader, () => this.openEntryStream(fileHeader));
+      }
+      return;
+    }
+
+    for (;;) {
+      const scanned = await this.readNextLocalFileHeader();
+      if (!scanned)
+        break;
+      const {header: zipHeader, offset} = scanned;
+      this.limiter?.countEntry();
+
+      const localEntry = this.openLocalEntry(zipHeader);
+      let state: 'available' | 'opened' | 'expired' = 'available';
+      // Set if reading the entry failed, the tokenizer may not be positioned at the end of the entry
+      let failed = false;
+      try {
+        yield new ZipEntry(zipHeader, async () => {
+          if (state !== 'available') {
+            throw new ArchiveUsageError(state === 'opened'
+              ? `The data of entry "${zipHeader.filename}" has already been read`
+              : `The data of entry "${zipHeader.filename}" is no longer available, it has to be read before advancing to the next entry`,
+              {filename: zipHeader.filename, offset});
           }
+          state = 'opened';
+          const inflated = this.inflateAndVerify(zipHeader, offset, localEntry.compressedData.stream(), localEntry.expectedCrc32);
+          return this.options.recover ? mapStreamErrors(inflated, err => {
+            failed = true;
+            return err as Error;
+          }) : inflated;
+        });
+      } finally {
+        state = 'expired';
+        // Move to the next local file header, in case the data has not been (completely) read
+        try {
+          await localEntry.compressedData.skip();
+          await localEntry.close();
+        } catch (err) {
+          this.recoverFrom(err);
+          failed = true;
         }
-        debug(`Found data-descriptor-signature at pos=${this.tokenizer.position}`);
-        if (next.handler) {
-          await this.inflate(zipHeader, mergeArrays(chunks), next.handler);
-        }
-      } else {
-        if (next.handler) {
-          debug(`Reading compressed-file-data: ${zipHeader.compressedSize} bytes`);
-          fileData = new Uint8Array(zipHeader.compressedSize);
-          await this.tokenizer.readBuffer(fileData);
-          await this.inflate(zipHeader, fileData, next.handler as InflatedDataHandler);
-        } else {
-          debug(`Ignoring compressed-file-data: ${zipHeader.compressedSize} bytes`);
-          await this.tokenizer.ignore(zipHeader.compressedSize);
+        if (failed) {
+          await this.synchronize(this.tokenizer.position);
         }
       }
+    }
+  }
 
-      debug(`Reading data-descriptor at pos=${this.tokenizer.position}`);
-      if (zipHeader.dataDescriptor) {
-        // await this.tokenizer.ignore(DataDescriptor.len);
-        const dataDescriptor = await this.tokenizer.readToken(DataDescriptor);
-        if (dataDescriptor.signature !== 0x08074b50) {
-          throw new Error(`Expected data-descriptor-signature at position ${this.tokenizer.position - DataDescriptor.len}`);
+  /**
+   * Prepare reading the compressed data of an entry, following the local file header at the current tokenizer position
+   */
+  private openLocalEntry(zipHeader: ILocalFileHeader): ILocalEntry {
+    let compressedSize: number | IEntryBoundary;
+    if (zipHeader.dataDescriptor && zipHeader.compressedSize === 0) {
+      debug('Compressed-file-size unknown, finding the end of the compressed-file-data....');
+      compressedSize = makeEntryBoundary(zipHeader);
+    } else {
+      debug(`Reading compressed-file-data: ${zipHeader.compressedSize} bytes`);
+      compressedSize = zipHeader.compressedSize;
+    }
+    const compressedData = new CompressedDataReader(this.tokenizer, this.syncBuffer, compressedSize);
+
+    // The data-descriptor is read once, either to verify the CRC-32 or to move to the next local-file-header
+    let dataDescriptor: Promise<IDataDescriptor> | undefined;
+    const readDataDescriptor = (): Promise<IDataDescriptor> => {
+      if (!dataDescriptor) {
+        dataDescriptor = this.readDataDescriptor(zipHeader, compressedData.bytesRead);
+      }
+      return dataDescriptor;
+    };
+
+    return {
+      compressedData,
+      expectedCrc32: zipHeader.dataDescriptor ? async uncompressedSize => {
+        const descriptor = await readDataDescriptor();
+        if (descriptor.uncompressedSize !== uncompressedSize) {
+          throw new ZipFormatError(`Data-descriptor of "${zipHeader.filename}" does not match the inflated data: uncompressed size ${descriptor.uncompressedSize}, inflated ${uncompressedSize} bytes`,
+            {filename: zipHeader.filename});
+        }
+        return descriptor.crc32;
+      } : () => zipHeader.crc32,
+      close: async () => {
+        if (zipHeader.dataDescriptor) {
+          await readDataDescriptor();
         }
       }
-    } while (!stop);
+    };
+  }
+
+  /**
+   * Read the data-descriptor following the compressed data, with or without the (optional) signature
+   * @param zipHeader Local file header
+   * @param compressedSize Number of compressed bytes preceding the data-descriptor
+   */
+  private async readDataDescriptor(zipHeader: ILocalFileHeader, compressedSize: number): Promise<IDataDescriptor> {
+    debug(`Reading data-descriptor at pos=${this.tokenizer.position}`);
+    const offset = this.tokenizer.position;
+    let dataDescriptor: IDataDescriptor;
+    try {
+      const signed = await this.tokenizer.peekToken(UINT32_LE) === Signature.DataDescriptor;
+      const dataDescriptorToken = zipHeader.zip64
+        ? (signed ? DataDescriptor64 : UnsignedDataDescriptor64)
+        : (signed ? DataDescriptor : UnsignedDataDescriptor);
+      dataDescriptor = await this.tokenizer.readToken(dataDescriptorToken);
+    } catch (err) {
+      if (isEndOfStreamError(err)) {
+        throw new TruncatedArchiveError(`Unexpected end of ZIP archive, reading the data-descriptor of "${zipHeader.filename}"`, {offset, filename: zipHeader.filename, cause: err});
+      }
+      throw err;
+    }
+    if (dataDescriptor.compressedSize !== compressedSize) {
+      throw new ZipFormatError(`Data-descriptor of "${zipHeader.filename}" at position ${offset} does not match the compressed data: compressed size ${dataDescriptor.compressedSize}, read ${compressedSize} bytes`,
+        {offset, filename: zipHeader.filename});
+    }
+    return dataDescriptor;
   }
 
   private async iterateOverCentralDirectory(entries: IFileHeader[], fileCb: InflateFileFilter) {
     for (const fileHeader of entries) {
       const next = fileCb(fileHeader);
-      if (next.handler) {
+      if (next.handler || next.streamHandler) {
         (this.tokenizer as IRandomAccessTokenizer).setPosition(fileHeader.relativeOffsetOfLocalHeader);
-        const zipHeader = await this.readLocalFileHeader();
-        if (zipHeader) {
-          await this.tokenizer.ignore(zipHeader.extraFieldLength);
-          const fileData = new Uint8Array(fileHeader.compressedSize);
-          await this.tokenizer.readBuffer(fileData);
-          await this.inflate(zipHeader, fileData, next.handler);
+        try {
+          const zipHeader = await this.readLocalFileHeader();
+          if (zipHeader) {
+            await this.extract(zipHeader, fileHeader.relativeOffsetOfLocalHeader, new CompressedDataReader(this.tokenizer, this.syncBuffer, fileHeader.compressedSize), next, () => fileHeader.crc32);
+          }
+        } catch (err) {
+          // In recovery mode, continue with the next entry
+          this.recoverFrom(err);
         }
       }
       if (next.stop) break;
     }
   }
 
-  private async inflate(
-    zipHeader: ILocalFileHeader,
-    fileData: Uint8Array,
-    cb: InflatedDataHandler
-  ): Promise<void> {
+  /**
+   * Open the inflated data of an entry listed in the central-directory.
+   * Requires random-access; the data is read at explicit positions, so the streams of multiple entries can be read simultaneously.
+   * @param fileHeader Central-directory file header, as returned by `readCentralDirectory()`
+   * @return Stream of inflated data
+   */
+  async openEntryStream(fileHeader: IFileHeader): Promise<ReadableStream<Uint8Array>> {
+    const zipHeader = await this.readLocalFileHeader(fileHeader.relativeOffsetOfLocalHeader);
+    if (!zipHeader) {
+      throw new ZipFormatError(`Expected Local-File-Header signature at position ${fileHeader.relativeOffsetOfLocalHeader}`, {
+        offset: fileHeader.relativeOffsetOfLocalHeader,
+        filename: fileHeader.filename
+      });
+    }
+    const dataOffset = fileHeader.relativeOffsetOfLocalHeader + LocalFileHeaderToken.len + zipHeader.filenameLength + zipHeader.extraFieldLength;
+    const compressedData = new CompressedDataReader(this.tokenizer, this.syncBuffer, fileHeader.compressedSize, dataOffset);
+    return this.inflateAndVerify(zipHeader, fileHeader.relativeOffsetOfLocalHeader, compressedData.stream(), () => fileHeader.crc32);
+  }
 
-    if (zipHeader.compressedMethod === 0) {
-      // Stored (uncompressed)
-      return cb(fileData);
+  /**
+   * Read the inflated data of an entry listed in the central-directory.
+   * Requires random-access.
+   * @param fileHeader Central-directory file header, as returned by `readCentralDirectory()`
+   * @return Inflated data
+   */
+  async openEntry(fileHeader: IFileHeader): Promise<Uint8Array> {
+    return collect(await this.openEntryStream(fileHeader));
+  }
+
+  /**
+   * Verify the integrity of the archive, inflating the data of every entry without returning it.
+   * With random-access, the local file headers are verified against the central-directory, including the location of the entries.
+   * Otherwise, the local file headers are scanned sequentially.
+   * Issues found are reported, errors other than an `ArchiveError` are thrown.
+   * @return Verification report
+   */
+  async verify(): Promise<IZipVerificationReport> {
+    const report: IZipVerificationReport = {
+      valid: false,
+      centralDirectory: false,
+      prependedDataLength: 0,
+      appendedDataLength: 0,
+      entries: [],
+      issues: []
+    };
+    const pos = this.tokenizer.position;
+    let fileHeaders: IFileHeader[] | undefined;
+    try {
+      fileHeaders = await this.readCentralDirectory();
+      if (!fileHeaders && this.tokenizer.supportsRandomAccess()) {
+        report.issues.push({type: 'missing-central-directory', message: 'End of central directory record not found'});
+      }
+    } catch (err) {
+      report.issues.push(errorToIssue(err));
+      (this.tokenizer as IRandomAccessTokenizer).setPosition(pos);
+    }
+    if (fileHeaders && this.centralDirectoryLocation) {
+      report.centralDirectory = true;
+      await this.verifyCentralDirectory(fileHeaders, this.centralDirectoryLocation, report);
+    } else {
+      await this.verifyLocalEntries(report);
     }
+    report.valid = report.issues.length === 0 && report.entries.every(entry => entry.issues.length === 0);
+    return report;
+  }
 
-    if (zipHeader.compressedMethod !== 8) {
-      throw new Error(`Unsupported ZIP compression method: ${zipHeader.compressedMethod}`);
+  /**
+   * Verify the entries listed in the central-directory, against their local file headers
+   */
+  private async verifyCentralDirectory(fileHeaders: IFileHeader[], location: ICentralDirectoryLocation, report: IZipVerificationReport): Promise<void> {
+    if (location.spanned) {
+      report.issues.push({type: 'unsupported-feature', message: 'Archive spans multiple disks', offset: location.offset});
+    }
+    const fileSize = this.tokenizer.fileInfo.size;
+    if (fileSize !== undefined && fileSize > location.end) {
+      report.appendedDataLength = fileSize - location.end;
+      report.issues.push({type: 'appended-data', message: `${report.appendedDataLength} bytes follow the end of central directory record`, offset: location.end});
     }
 
-    debug(`Decompress filename=${zipHeader.filename}, compressed-size=${fileData.length}`);
+    const names = new Set<string>();
+    const extents: {start: number, end: number, entry: IZipEntryVerification}[] = [];
+    for (const fileHeader of fileHeaders) {
+      const offset = fileHeader.relativeOffsetOfLocalHeader;
+      const entry = makeEntryVerification(fileHeader, offset);
+      report.entries.push(entry);
+      const addIssue = (type: VerificationIssueType, message: string) => entry.issues.push({type, message, filename: fileHeader.filename, offset});
 
-    const uncompressedData = await ZipHandler.decompressDeflateRaw(fileData);
-    return cb(uncompressedData);
-  }
+      if (names.has(fileHeader.filename)) {
+        addIssue('duplicate-name', `Duplicate entry name "${fileHeader.filename}"`);
+      }
+      names.add(fileHeader.filename);
+      if (offset + LocalFileHeaderToken.len > location.offset) {
+        addIssue('offset-out-of-range', `Local file header at ${offset} is not located before the central-directory`);
+        continue;
+      }
 
-  private static async decompressDeflateRaw(data: Uint8Array): Promise<Uint8Array> {
-    // Wrap Uint8Array in a ReadableStream without copying
-    const input = new ReadableStream<Uint8Array>({
-      start(controller) {
-        controller.enqueue(data);
-        controller.close();
+      let zipHeader: ILocalFileHeader | false;
+      try {
+        zipHeader = await this.readLocalFileHeader(offset);
+      } catch (err) {
+        entry.issues.push(errorToIssue(err));
+        continue;
+      }
+      if (!zipHeader) {
+        addIssue('format-error', `Expected Local-File-Header signature at position ${offset}`);
+        continue;
+      }
+      const mismatches = compareLocalFileHeader(zipHeader, fileHeader);
+      if (mismatches.length > 0) {
+        addIssue('header-mismatch', `Local file header does not match the central-directory: ${mismatches.join(', ')}`);
       }
-    });
 
-    const ds = new DecompressionStream("deflate-raw");
-    const output = input.pipeThrough(ds as unknown as ReadableWritablePair<Uint8Array, Uint8Array>);
+      const dataOffset = offset + LocalFileHeaderToken.len + zipHeader.filenameLength + zipHeader.extraFieldLength;
+      let end = dataOffset + fileHeader.compressedSize;
+      if (zipHeader.dataDescriptor && end < location.offset) {
+        const dataDescriptor = await this.peekDataDescriptor(zipHeader, end);
+        if (dataDescriptor) {
+          end += (zipHeader.zip64 ? DataDescriptor64 : DataDescriptor).len;
+          const mismatches = compareDataDescriptor(dataDescriptor, fileHeader);
+          if (mismatches.length > 0) {
+            addIssue('header-mismatch', `Data-descriptor does not match the central-directory: ${mismatches.join(', ')}`);
+          }
+        }
+      }
+      if (end > location.offset) {
+        addIssue('offset-out-of-range', 'Entry data extends beyond the start of the central-directory');
+        continue;
+      }
+      extents.push({start: offset, end, entry});
+
+      if (fileHeader.flags & 0x0040) {
+        addIssue('unsupported-feature', 'Strong encryption is not supported');
+        continue;
+      }
+      const compressedData = new CompressedDataReader(this.tokenizer, this.syncBuffer, fileHeader.compressedSize, dataOffset);
+      await this.verifyEntryData(zipHeader, offset, compressedData.stream(), () => fileHeader.crc32, entry);
+    }
+
+    extents.sort((a, b) => a.start - b.start);
+    // Extent reaching furthest so far, an extent may overlap with any preceding extent
+    let furthest = extents[0];
+    for (let n = 1; n < extents.length; ++n) {
+      const extent = extents[n];
+      if (extent.start < furthest.end) {
+        const entry = extent.entry;
+        entry.issues.push({
+          type: 'overlapping-entries',
+          message: `Entry overlaps with entry "${furthest.entry.filename}"`,
+          filename: entry.filename,
+          offset: entry.offset
+        });
+      } else if (extent.start > furthest.end) {
+        report.issues.push({
+          type: 'unreferenced-data',
+          message: `${extent.start - furthest.end} bytes between entries are not referenced by the central-directory`,
+          offset: furthest.end
+        });
+      }
+      if (extent.end > furthest.end) {
+        furthest = extent;
+      }
+    }
+    if (furthest && furthest.end < location.offset) {
+      report.issues.push({
+        type: 'unreferenced-data',
+        message: `${location.offset - furthest.end} bytes between the last entry and the central-directory are not referenced by the central-directory`,
+        offset: furthest.end
+      });
+    }
+    report.prependedDataLength = extents.length > 0 ? extents[0].start : location.offset;
+    if (report.prependedDataLength > 0) {
+      report.issues.push({type: 'prepended-data', message: `${report.prependedDataLength} bytes precede the first entry`, offset: 0});
+    }
+  }
+
+  /**
+   * Verify the entries, by scanning the local file headers
+   */
+  private async verifyLocalEntries(report: IZipVerificationReport): Promise<void> {
+    for (;;) {
+      const offset = this.tokenizer.position;
+      let zipHeader: ILocalFileHeader | false;
+      try {
+        zipHeader = await this.readLocalFileHeader(offset);
+      } catch (err) {
+        report.issues.push(errorToIssue(err));
+        return;
+      }
+      if (!zipHeader) return;
+      const entry = makeEntryVerification(zipHeader, offset);
+      report.entries.push(entry);
+      const localEntry = this.openLocalEntry(zipHeader);
+      let compressedSize = 0;
+      const compressedData = localEntry.compressedData.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          compressedSize += chunk.length;
+          controller.enqueue(chunk);
+        }
+      }));
+      const inflatedSize = await this.verifyEntryData(zipHeader, offset, compressedData, localEntry.expectedCrc32, entry);
+      if (zipHeader.dataDescriptor) {
+        // The sizes in the local file header may be zero, report the actual sizes instead
+        entry.compressedSize = compressedSize;
+        entry.uncompressedSize = inflatedSize;
+      }
+      try {
+        await localEntry.compressedData.skip();
+        await localEntry.close();
+      } catch (err) {
+        entry.issues.push(errorToIssue(err));
+        return;
+      }
+    }
+  }
 
+  /**
+   * Inflate the data of an entry and verify the CRC-32, recording the issues found
+   * @return Number of bytes inflated
+   */
+  private async verifyEntryData(zipHeader: ILocalFileHeader, offset: number, compressedData: ReadableStream<Uint8Array>, expectedCrc32: ExpectedCrc32,
+                                entry: IZipEntryVerification): Promise<number> {
+    let inflatedSize = 0;
     try {
-      // Collect decompressed bytes from the output stream
-      const response = new Response(output);
-      const buffer = await response.arrayBuffer();
-      return new Uint8Array(buffer);
-    } catch (err: unknown) {
-      // Provide ZIP-specific error context
-      const message =
-        err instanceof Error
-          ? `Failed to deflate ZIP entry: ${err.message}`
-          : "Unknown decompression error in ZIP entry";
+      const reader = this.inflateAndVerify(zipHeader, offset, compressedData, expectedCrc32, true).getReader();
+      for (;;) {
+        const result = await reader.read();
+        if (result.done) break;
+        inflatedSize += result.value.length;
+      }
+      entry.crc32 = zipHeader.aes?.version === 2 ? 'unverified' : 'valid';
+    } catch (err) {
+      entry.issues.push(errorToIssue(err));
+      if (err instanceof Crc32MismatchError) {
+        entry.crc32 = 'invalid';
+      }
+    }
+    return inflatedSize;
+  }
+
+  /**
+   * Peek the data-descriptor following the compressed data
+   * @return Data-descriptor, undefined if the (optional) data-descriptor signature is absent
+   */
+  private async peekDataDescriptor(zipHeader: ILocalFileHeader, position: number): Promise<IDataDescriptor | undefined> {
+    const dataDescriptorToken = zipHeader.zip64 ? DataDescriptor64 : DataDescriptor;
+    const buffer = new Uint8Array(dataDescriptorToken.len);
+    const len = await this.tokenizer.peekBuffer(buffer, {position, mayBeLess: true});
+    if (len < buffer.length) return;
+    const dataDescriptor = dataDescriptorToken.get(buffer, 0);
+    return dataDescriptor.signature === Signature.DataDescriptor ? dataDescriptor : undefined;
+  }
 
-      throw new TypeError(message);
+  /**
+   * Pass the inflated data of the entry to the handler, or skip the compressed data if the entry is ignored.
+   * On return, the tokenizer is positioned at the end of the compressed data.
+   * @param zipHeader Local file header
+   * @param offset Position of the local file header
+   * @param compressedData Reader of the compressed data
+   * @param next Result of the file filter
+   * @param expectedCrc32 Provides the CRC-32 to verify the inflated data against
+   */
+  private async extract(zipHeader: ILocalFileHeader, offset: number, compressedData: CompressedDataReader, next: InflateFileFilterResult, expectedCrc32: ExpectedCrc32): Promise<void> {
+    if (next.streamHandler) {
+      try {
+        await next.streamHandler(this.inflateAndVerify(zipHeader, offset, compressedData.stream(), expectedCrc32));
+      } finally {
+        // Move to the end of the compressed data, in case the handler did not consume the whole stream
+        await compressedData.skip();
+      }
+    } else if (next.handler) {
+      const fileData = await collect(this.inflateAndVerify(zipHeader, offset, compressedData.stream(), expectedCrc32));
+      await next.handler(fileData);
+    } else {
+      debug(`Ignoring compressed-file-data of filename=${zipHeader.filename}`);
+      await compressedData.skip();
     }
   }
 
-  private async readLocalFileHeader(): Promise<ILocalFileHeader | false> {
-    const signature = await this.tokenizer.peekToken(UINT32_LE);
-    if (signature === Signature.LocalFileHeader) {
-      const header = await this.tokenizer.readToken(LocalFileHeaderToken);
-      header.filename = await this.tokenizer.readToken(new StringType(header.filenameLength, 'utf-8'));
-      return header;
+  /**
+   * Inflate and verify the data of an entry.
+   * Any error is raised as an `ArchiveError`, providing the name and offset of the entry.
+   * @param zipHeader Local file header
+   * @param offset Position of the local file header
+   * @param compressedData Compressed data
+   * @param expectedCrc32 Provides the CRC-32 to verify the inflated data against
+   * @param verifyCrc Verify the CRC-32, default according to the `verifyCrc` option
+   */
+  private inflateAndVerify(zipHeader: ILocalFileHeader, offset: number, compressedData: ReadableStream<Uint8Array>, expectedCrc32: ExpectedCrc32,
+                           verifyCrc = this.options.verifyCrc !== false): ReadableStream<Uint8Array> {
+    const context = {filename: zipHeader.filename, offset};
+    let inflated: ReadableStream<Uint8Array>;
+    try {
+      inflated = this.inflateWithinLimits(zipHeader, compressedData);
+    } catch (err) {
+      throw toEntryError(err, context);
     }
-    if (signature === Signature.CentralFileHeader) {
-      return false;
+    if (!verifyCrc || zipHeader.aes?.version === 2) {
+      // AE-2 does not store the CRC-32, integrity is covered by the authentication code
+      return mapStreamErrors(inflated, err => toEntryError(err, context));
     }
-    if (signature === 0xE011CFD0) {
-      throw new Error('Encrypted ZIP');
+    let crc = 0;
+    let size = 0;
+    return mapStreamErrors(inflated.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        crc = crc32(chunk, crc);
+        size += chunk.length;
+        controller.enqueue(chunk);
+      },
+      async flush() {
+        const expected = await expectedCrc32(size);
+        if (crc !== expected) {
+          throw new Crc32MismatchError(zipHeader.filename, expected, crc, offset);
+        }
+        debug(`CRC-32 verified of filename=${zipHeader.filename}`);
+      }
+    })), err => toEntryError(err, context));
+  }
+
+  /**
+   * Inflate, erroring the stream as soon as the inflated data exceeds one of the limits
+   */
+  private inflateWithinLimits(zipHeader: ILocalFileHeader, compressedData: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+    if (!this.limiter) {
+      return this.inflate(zipHeader, compressedData);
     }
-    throw new Error('Unexpected signature');
+    const entryLimiter = this.limiter.trackEntry(zipHeader.filename);
+    return this.inflate(zipHeader, compressedData.pipeThrough(entryLimiter.countCompressed()))
+      .pipeThrough(entryLimiter.countInflated());
   }
-}
 
-function indexOf(buffer: Uint8Array, portion: Uint8Array): number {
-  const bufferLength = buffer.length;
-  const portionLength = portion.length;
+  private inflate(zipHeader: ILocalFileHeader, compressedData: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
 
-  // Return -1 if the portion is longer than the buffer
-  if (portionLength > bufferLength) return -1;
+    // For WinZip AES encrypted entries, the actual compression method is stored in the AES extra field
+    const compressionMethod = zipHeader.encrypted && zipHeader.aes ? zipHeader.aes.compressionMethod : zipHeader.compressedMethod;
+    const decoder = compressionMethod === 0 ? undefined : this.getDecoder(zipHeader, compressionMethod);
 
-  // Search for the portion in the buffer
-  for (let i = 0; i <= bufferLength - portionLength; i++) {
-    let found = true;
+    if (zipHeader.encrypted) {
+      compressedData = this.decrypt(zipHeader, compressedData);
+    }
 
-    for (let j = 0; j < portionLength; j++) {
-      if (buffer[i + j] !== portion[j]) {
-        found = false;
-        break;
+    if (!decoder) {
+      // Stored (uncompressed)
+      return compressedData;
+    }
+
+    debug(`Decompress filename=${zipHeader.filename}, compression-method=${compressionMethod}, compressed-size=${zipHeader.compressedSize}`);
+    return compressedData.pipeThrough(decoder(zipHeader));
+  }
+
+  /**
+   * Lookup the decoder of the compression method; user supplied decoders take precedence over the built-in decoders
+   */
+  private getDecoder(zipHeader: ILocalFileHeader, compressionMethod: number): CompressionMethodDecoder {
+    const decoder = this.options.compressionMethods?.[compressionMethod] ?? this.builtInDecoders[compressionMethod];
+    if (!decoder) {
+      throw new UnsupportedCompressionMethodError(compressionMethod, zipHeader.filename);
+    }
+    return decoder;
+  }
+
+  private decrypt(zipHeader: ILocalFileHeader, encryptedData: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+    if (zipHeader.flags & 0x0040) {
+      throw new EncryptedEntryError(zipHeader.filename, `Entry "${zipHeader.filename}" uses strong encryption, which is not supported`);
+    }
+    const password = this.options.password;
+    if (password === undefined) {
+      throw new EncryptedEntryError(zipHeader.filename);
+    }
+    debug(`Decrypt filename=${zipHeader.filename}`);
+    const passwordBytes = typeof password === 'string' ? new TextEncoder().encode(password) : password;
+    if (zipHeader.compressedMethod === WinZipAesCompressionMethod) {
+      if (!zipHeader.aes) {
+        throw new EncryptedEntryError(zipHeader.filename, `Entry "${zipHeader.filename}" is missing the WinZip AES extra field`);
       }
+      return encryptedData.pipeThrough(makeWinZipAesDecryptionStream(passwordBytes, zipHeader.aes.strength, zipHeader.filename));
     }
+    // If a data-descriptor is used, the CRC-32 is unknown when encrypting: the check-byte is taken from the file time
+    const checkByte = zipHeader.dataDescriptor ? zipHeader.lastModFileTime >>> 8 : zipHeader.crc32 >>> 24;
+    return encryptedData.pipeThrough(makeZipCryptoDecryptionStream(passwordBytes, checkByte, zipHeader.filename));
+  }
 
-    if (found) {
-      return i; // Return the starting offset
+  /**
+   * Read the local file header, including the filename and extra field
+   * @param offset Position of the local file header, default is the current tokenizer position
+   */
+  private async readLocalFileHeader(offset = this.tokenizer.position): Promise<ILocalFileHeader | false> {
+    let header: ILocalFileHeader;
+    try {
+      const signature = await this.tokenizer.peekToken(UINT32_LE, offset);
+      if (signature !== Signature.LocalFileHeader) {
+        if (signature === Signature.CentralFileHeader) {
+          return false;
+        }
+        if (signature === 0xE011CFD0) {
+          throw new ZipFormatError('Encrypted ZIP: found the signature of an OLE compound file, used by encrypted Office documents', {offset});
+        }
+        throw new ZipFormatError(`Unexpected signature 0x${signature.toString(16).padStart(8, '0')} at position ${offset}`, {offset});
+      }
+      header = await this.tokenizer.readToken(LocalFileHeaderToken, offset);
+      await this.readFilenameAndExtraField(header, offset + LocalFileHeaderToken.len);
+    } catch (err) {
+      if (isEndOfStreamError(err)) {
+        throw new TruncatedArchiveError('Unexpected end of ZIP archive, reading the local file header', {offset, cause: err});
+      }
+      throw err;
     }
+    this.applyPathSafety(header, offset);
+    return header;
   }
+}
+
+/**
+ * Pass through the data of the stream, converting any error of the stream
+ */
+function mapStreamErrors(stream: ReadableStream<Uint8Array>, mapError: (err: unknown) => Error): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (err) {
+        throw mapError(err);
+      }
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+    }
+  });
+}
 
-  return -1; // Not found
+/**
+ * Create the boundary finding the end of compressed data of unknown size.
+ * Unencrypted Deflate and Deflate64 data is decoded to find its exact end, otherwise the data is scanned for the data-descriptor.
+ */
+function makeEntryBoundary(zipHeader: ILocalFileHeader): IEntryBoundary {
+  if (!zipHeader.encrypted && (zipHeader.compressedMethod === 8 || zipHeader.compressedMethod === 9)) {
+    return new InflateBoundary({deflate64: zipHeader.compressedMethod === 9});
+  }
+  return new DataDescriptorBoundary(zipHeader.zip64, !zipHeader.encrypted && zipHeader.compressedMethod === 0);
 }
 
-function mergeArrays(chunks: Uint8Array[]) {
-  // Concatenate chunks into a single Uint8Array
-  const totalLength = chunks.reduce((acc, curr) => acc + curr.length, 0);
-  const mergedArray = new Uint8Array(totalLength);
-  let offset = 0;
+function makeEntryVerification(zipHeader: ILocalFileHeader, offset: number): IZipEntryVerification {
+  return {
+    filename: zipHeader.filename,
+    offset,
+    compressionMethod: zipHeader.compressedMethod,
+    compressedSize: zipHeader.compressedSize,
+    uncompressedSize: zipHeader.uncompressedSize,
+    crc32: 'unverified',
+    issues: []
+  };
+}
 
-  for (const chunk of chunks) {
-    mergedArray.set(chunk, offset);
-    offset += chunk.length;
+/**
+ * Compare the local file header with the central-directory file header
+ * @return Names of the fields which do not match
+ */
+function compareLocalFileHeader(zipHeader: ILocalFileHeader, fileHeader: IFileHeader): string[] {
+  const mismatches: string[] = [];
+  if (zipHeader.filename !== fileHeader.filename) mismatches.push('filename');
+  if (zipHeader.compressedMethod !== fileHeader.compressedMethod) mismatches.push('compression method');
+  if (zipHeader.encrypted !== fileHeader.encrypted) mismatches.push('encryption');
+  if (!zipHeader.dataDescriptor) {
+    // With a data-descriptor, the CRC-32 and sizes of the local file header may be zero
+    if (zipHeader.crc32 !== fileHeader.crc32) mismatches.push('CRC-32');
+    if (zipHeader.compressedSize !== fileHeader.compressedSize) mismatches.push('compressed size');
+    if (zipHeader.uncompressedSize !== fileHeader.uncompressedSize) mismatches.push('uncompressed size');
   }
-  return mergedArray;
-}
\ No newline at end of file
+  return mismatches;
+}
+
+/**
+ * Compare the data-descriptor with the central-directory file header
+ * @return Names of the fields which do not match
+ */
+function compareDataDescriptor(dataDescriptor: IDataDescriptor, fileHeader: IFileHeader): string[] {
+  const mismatches: string[] = [];
+  if (dataDescriptor.crc32 !== fileHeader.crc32) mismatches.push('CRC-32');
+  if (dataDescriptor.compressedSize !== fileHeader.compressedSize) mismatches.push('compressed size');
+  if (dataDescriptor.uncompressedSize !== fileHeader.uncompressedSize) mismatches.push('uncompressed size');
+  return mismatches;
+}
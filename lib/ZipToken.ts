@@ -2,41 +2,189 @@
  * Ref https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
  */
 
-import type {IGetToken} from "strtok3";
-import {UINT16_LE, UINT32_LE} from "token-types";
+import type {IGetToken, IToken} from "strtok3";
+import {UINT16_LE, UINT32_LE, UINT64_LE} from "token-types";
+import type {IExtraFields, IZip64ExtendedInformation} from "./ExtraField.js";
+import type {PathIssue} from "./PathSafety.js";
 
 export const Signature = {
   LocalFileHeader: 0x04034b50,
   DataDescriptor: 0x08074b50,
   CentralFileHeader: 0x02014b50,
-  EndOfCentralDirectory: 0x06054b50
+  EndOfCentralDirectory: 0x06054b50,
+  Zip64EndOfCentralDirectory: 0x06064b50,
+  Zip64EndOfCentralDirectoryLocator: 0x07064b50
 }
 
-interface IDataDescriptor {
+export const ExtraFieldId = {
+  Zip64: 0x0001,
+  Ntfs: 0x000a,
+  ExtendedTimestamp: 0x5455,
+  UnicodePath: 0x7075,
+  InfoZipUnix: 0x7875,
+  WinZipAes: 0x9901
+}
+
+/**
+ * Compression method indicating WinZip AES encryption
+ */
+export const WinZipAesCompressionMethod = 99;
+
+export interface IDataDescriptor {
   signature: number;
+  crc32: number;
   compressedSize: number;
   uncompressedSize: number;
 }
 
 export interface ILocalFileHeader extends IDataDescriptor {
   minVersion: number;
+  /**
+   * General purpose bit flag
+   */
+  flags: number;
+  /**
+   * General purpose bit 0: the entry is encrypted
+   */
+  encrypted: boolean;
   dataDescriptor: boolean;
+  /**
+   * General purpose bit 11 (EFS): the filename and comment are UTF-8 encoded
+   */
+  utf8: boolean;
   compressedMethod: number;
+  /**
+   * File last modification time (MS-DOS format)
+   */
+  lastModFileTime: number;
+  /**
+   * File last modification date (MS-DOS format)
+   */
+  lastModFileDate: number;
+  /**
+   * File last modification time, decoded from the MS-DOS time and date.
+   * MS-DOS timestamps do not include a time zone, the timestamp is interpreted as local time.
+   */
+  lastModified: Date;
   compressedSize: number;
   uncompressedSize: number;
   filenameLength: number;
   extraFieldLength: number;
   filename: string;
+  /**
+   * True if the sizes (and offset) have been taken from the ZIP64 extended information extra field
+   */
+  zip64: boolean;
+  /**
+   * WinZip AES extra field, present if the entry is WinZip AES encrypted
+   */
+  aes?: IWinZipAesExtraField;
+  /**
+   * Decoded extra field blocks, undefined if the header has no extra field
+   */
+  extraFields?: IExtraFields;
+  /**
+   * Filename as stored in the archive, set if the filename has been sanitized
+   */
+  originalFilename?: string;
+  /**
+   * Issues found in the filename, only set if path safety is enabled
+   */
+  pathIssues?: PathIssue[];
 }
 
-export const DataDescriptor: IGetToken<IDataDescriptor> = {
+/**
+ * Data descriptor
+ * Offset | Bytes| Description
+ * -------|------+-------------------------------------------------------------------
+ *      0 |    4 | Signature (0x08074b50)
+ *      4 |    4 | CRC-32 of uncompressed data
+ *      8 |    4 | Compressed size
+ *     12 |    4 | Uncompressed size
+ */
+export const DataDescriptor: IToken<IDataDescriptor> = {
   get(array: Uint8Array): IDataDescriptor {
     return {
       signature: UINT32_LE.get(array, 0),
+      crc32: UINT32_LE.get(array, 4),
       compressedSize: UINT32_LE.get(array, 8),
       uncompressedSize: UINT32_LE.get(array, 12),
     }
-  }, len: 16
+  },
+  put(array: Uint8Array, offset: number, dataDescriptor: IDataDescriptor): number {
+    UINT32_LE.put(array, offset, dataDescriptor.signature);
+    UINT32_LE.put(array, offset + 4, dataDescriptor.crc32);
+    UINT32_LE.put(array, offset + 8, dataDescriptor.compressedSize);
+    return UINT32_LE.put(array, offset + 12, dataDescriptor.uncompressedSize);
+  },
+  len: 16
+};
+
+/**
+ * ZIP64 data descriptor, used if the local header contains a ZIP64 extra field
+ * Offset | Bytes| Description
+ * -------|------+-------------------------------------------------------------------
+ *      0 |    4 | Signature (0x08074b50)
+ *      4 |    4 | CRC-32 of uncompressed data
+ *      8 |    8 | Compressed size
+ *     16 |    8 | Uncompressed size
+ */
+export const DataDescriptor64: IToken<IDataDescriptor> = {
+  get(array: Uint8Array): IDataDescriptor {
+    return {
+      signature: UINT32_LE.get(array, 0),
+      crc32: UINT32_LE.get(array, 4),
+      compressedSize: Number(UINT64_LE.get(array, 8)),
+      uncompressedSize: Number(UINT64_LE.get(array, 16)),
+    }
+  },
+  put(array: Uint8Array, offset: number, dataDescriptor: IDataDescriptor): number {
+    UINT32_LE.put(array, offset, dataDescriptor.signature);
+    UINT32_LE.put(array, offset + 4, dataDescriptor.crc32);
+    UINT64_LE.put(array, offset + 8, BigInt(dataDescriptor.compressedSize));
+    return UINT64_LE.put(array, offset + 16, BigInt(dataDescriptor.uncompressedSize));
+  },
+  len: 24
+};
+
+/**
+ * Data descriptor without the (optional) signature, the signature is returned as 0
+ * Offset | Bytes| Description
+ * -------|------+-------------------------------------------------------------------
+ *      0 |    4 | CRC-32 of uncompressed data
+ *      4 |    4 | Compressed size
+ *      8 |    4 | Uncompressed size
+ */
+export const UnsignedDataDescriptor: IGetToken<IDataDescriptor> = {
+  get(array: Uint8Array): IDataDescriptor {
+    return {
+      signature: 0,
+      crc32: UINT32_LE.get(array, 0),
+      compressedSize: UINT32_LE.get(array, 4),
+      uncompressedSize: UINT32_LE.get(array, 8),
+    }
+  },
+  len: 12
+};
+
+/**
+ * ZIP64 data descriptor without the (optional) signature, the signature is returned as 0
+ * Offset | Bytes| Description
+ * -------|------+-------------------------------------------------------------------
+ *      0 |    4 | CRC-32 of uncompressed data
+ *      4 |    8 | Compressed size
+ *     12 |    8 | Uncompressed size
+ */
+export const UnsignedDataDescriptor64: IGetToken<IDataDescriptor> = {
+  get(array: Uint8Array): IDataDescriptor {
+    return {
+      signature: 0,
+      crc32: UINT32_LE.get(array, 0),
+      compressedSize: Number(UINT64_LE.get(array, 4)),
+      uncompressedSize: Number(UINT64_LE.get(array, 12)),
+    }
+  },
+  len: 20
 };
 
 /**
@@ -57,24 +205,46 @@ export const DataDescriptor: IGetToken<IDataDescriptor> = {
  *     30 |    n | File name
  * 30 + n |    m | Extra field
  */
-export const LocalFileHeaderToken: IGetToken<ILocalFileHeader> = {
+export const LocalFileHeaderToken: IToken<ILocalFileHeader> = {
   get(array: Uint8Array): ILocalFileHeader {
     const flags = UINT16_LE.get(array, 6)
     return {
       signature: UINT32_LE.get(array, 0),
       minVersion: UINT16_LE.get(array, 4),
+      flags,
+      encrypted: !!(flags & 0x0001),
       dataDescriptor: !!(flags & 0x0008),
+      utf8: !!(flags & 0x0800),
       compressedMethod: UINT16_LE.get(array, 8),
+      lastModFileTime: UINT16_LE.get(array, 10),
+      lastModFileDate: UINT16_LE.get(array, 12),
+      lastModified: dosDateTimeToDate(UINT16_LE.get(array, 12), UINT16_LE.get(array, 10)),
+      crc32: UINT32_LE.get(array, 14),
       compressedSize: UINT32_LE.get(array, 18),
       uncompressedSize: UINT32_LE.get(array, 22),
       filenameLength: UINT16_LE.get(array, 26),
       extraFieldLength: UINT16_LE.get(array, 28),
-      filename: null as unknown as string
+      filename: null as unknown as string,
+      zip64: false
     }
-  }, len: 30
+  },
+  put(array: Uint8Array, offset: number, header: ILocalFileHeader): number {
+    UINT32_LE.put(array, offset, header.signature);
+    UINT16_LE.put(array, offset + 4, header.minVersion);
+    UINT16_LE.put(array, offset + 6, header.flags);
+    UINT16_LE.put(array, offset + 8, header.compressedMethod);
+    UINT16_LE.put(array, offset + 10, header.lastModFileTime);
+    UINT16_LE.put(array, offset + 12, header.lastModFileDate);
+    UINT32_LE.put(array, offset + 14, header.crc32);
+    UINT32_LE.put(array, offset + 18, header.compressedSize);
+    UINT32_LE.put(array, offset + 22, header.uncompressedSize);
+    UINT16_LE.put(array, offset + 26, header.filenameLength);
+    return UINT16_LE.put(array, offset + 28, header.extraFieldLength);
+  },
+  len: 30
 };
 
-interface I64EndOfCentralDirectoryRecord {
+export interface I64EndOfCentralDirectoryRecord {
   signature: number,
   directoryRecord: bigint,
   versionMadeBy: number,
@@ -83,9 +253,86 @@ interface I64EndOfCentralDirectoryRecord {
   nrOfThisDiskWithTheStart: number,
   nrOfEntriesOnThisDisk: bigint,
   nrOfEntriesOfSize: bigint,
+  sizeOfCd: bigint,
   offsetOfStartOfCd: bigint,
 }
 
+/**
+ * 4.3.14  Zip64 end of central directory record
+ *  zip64 end of central dir signature (0x06064b50)                                4 bytes
+ *  size of zip64 end of central directory record                                  8 bytes
+ *  version made by                                                                2 bytes
+ *  version needed to extract                                                      2 bytes
+ *  number of this disk                                                            4 bytes
+ *  number of the disk with the start of the central directory                     4 bytes
+ *  total number of entries in the central directory on this disk                  8 bytes
+ *  total number of entries in the central directory                               8 bytes
+ *  size of the central directory                                                  8 bytes
+ *  offset of start of central directory with respect to the starting disk number  8 bytes
+ *  zip64 extensible data sector    (variable size)
+ */
+export const Zip64EndOfCentralDirectoryRecordToken: IToken<I64EndOfCentralDirectoryRecord> = {
+  get(array: Uint8Array): I64EndOfCentralDirectoryRecord {
+    return {
+      signature: UINT32_LE.get(array, 0),
+      directoryRecord: UINT64_LE.get(array, 4),
+      versionMadeBy: UINT16_LE.get(array, 12),
+      versionNeedToExtract: UINT16_LE.get(array, 14),
+      nrOfThisDisk: UINT32_LE.get(array, 16),
+      nrOfThisDiskWithTheStart: UINT32_LE.get(array, 20),
+      nrOfEntriesOnThisDisk: UINT64_LE.get(array, 24),
+      nrOfEntriesOfSize: UINT64_LE.get(array, 32),
+      sizeOfCd: UINT64_LE.get(array, 40),
+      offsetOfStartOfCd: UINT64_LE.get(array, 48),
+    }
+  },
+  put(array: Uint8Array, offset: number, record: I64EndOfCentralDirectoryRecord): number {
+    UINT32_LE.put(array, offset, record.signature);
+    UINT64_LE.put(array, offset + 4, record.directoryRecord);
+    UINT16_LE.put(array, offset + 12, record.versionMadeBy);
+    UINT16_LE.put(array, offset + 14, record.versionNeedToExtract);
+    UINT32_LE.put(array, offset + 16, record.nrOfThisDisk);
+    UINT32_LE.put(array, offset + 20, record.nrOfThisDiskWithTheStart);
+    UINT64_LE.put(array, offset + 24, record.nrOfEntriesOnThisDisk);
+    UINT64_LE.put(array, offset + 32, record.nrOfEntriesOfSize);
+    UINT64_LE.put(array, offset + 40, record.sizeOfCd);
+    return UINT64_LE.put(array, offset + 48, record.offsetOfStartOfCd);
+  },
+  len: 56
+};
+
+export interface IZip64EndOfCentralDirectoryLocator {
+  signature: number,
+  nrOfTheDiskWithTheStart: number,
+  offsetOfZip64Eocd: bigint,
+  totalNumberOfDisks: number
+}
+
+/**
+ * 4.3.15 Zip64 end of central directory locator
+ *  zip64 end of central dir locator signature (0x07064b50)                        4 bytes
+ *  number of the disk with the start of the zip64 end of central directory        4 bytes
+ *  relative offset of the zip64 end of central directory record                   8 bytes
+ *  total number of disks                                                          4 bytes
+ */
+export const Zip64EndOfCentralDirectoryLocatorToken: IToken<IZip64EndOfCentralDirectoryLocator> = {
+  get(array: Uint8Array): IZip64EndOfCentralDirectoryLocator {
+    return {
+      signature: UINT32_LE.get(array, 0),
+      nrOfTheDiskWithTheStart: UINT32_LE.get(array, 4),
+      offsetOfZip64Eocd: UINT64_LE.get(array, 8),
+      totalNumberOfDisks: UINT32_LE.get(array, 16),
+    }
+  },
+  put(array: Uint8Array, offset: number, locator: IZip64EndOfCentralDirectoryLocator): number {
+    UINT32_LE.put(array, offset, locator.signature);
+    UINT32_LE.put(array, offset + 4, locator.nrOfTheDiskWithTheStart);
+    UINT64_LE.put(array, offset + 8, locator.offsetOfZip64Eocd);
+    return UINT32_LE.put(array, offset + 16, locator.totalNumberOfDisks);
+  },
+  len: 20
+};
+
 interface IEndOfCentralDirectoryRecord {
   signature: number,
   nrOfThisDisk: number,
@@ -109,7 +356,7 @@ interface IEndOfCentralDirectoryRecord {
  *  .ZIP file comment length                                                       2 bytes
  *  .ZIP file comment       (variable size)
  */
-export const EndOfCentralDirectoryRecordToken: IGetToken<IEndOfCentralDirectoryRecord> = {
+export const EndOfCentralDirectoryRecordToken: IToken<IEndOfCentralDirectoryRecord> = {
   get(array: Uint8Array): IEndOfCentralDirectoryRecord {
     return {
       signature: UINT32_LE.get(array, 0),
@@ -121,12 +368,81 @@ export const EndOfCentralDirectoryRecordToken: IGetToken<IEndOfCentralDirectoryR
       offsetOfStartOfCd: UINT32_LE.get(array, 16),
       zipFileCommentLength: UINT16_LE.get(array, 20),
     }
-  }, len: 22
+  },
+  put(array: Uint8Array, offset: number, record: IEndOfCentralDirectoryRecord): number {
+    UINT32_LE.put(array, offset, record.signature);
+    UINT16_LE.put(array, offset + 4, record.nrOfThisDisk);
+    UINT16_LE.put(array, offset + 6, record.nrOfThisDiskWithTheStart);
+    UINT16_LE.put(array, offset + 8, record.nrOfEntriesOnThisDisk);
+    UINT16_LE.put(array, offset + 10, record.nrOfEntriesOfSize);
+    UINT32_LE.put(array, offset + 12, record.sizeOfCd);
+    UINT32_LE.put(array, offset + 16, record.offsetOfStartOfCd);
+    return UINT16_LE.put(array, offset + 20, record.zipFileCommentLength);
+  },
+  len: 22
 };
 
+/**
+ * Upper byte of "version made by", indicating the host system, which determines the interpretation of the external file attributes
+ */
+export const HostSystem = {
+  MsDos: 0,
+  Unix: 3,
+  Ntfs: 10,
+  Vfat: 14,
+  Darwin: 19
+}
+
+/**
+ * File type bits of the Unix mode
+ */
+const unixFileTypeMask = 0o170000;
+const unixDirectory = 0o040000;
+const unixRegularFile = 0o100000;
+const unixSymbolicLink = 0o120000;
+
+/**
+ * MS-DOS directory attribute, in the lower byte of the external file attributes
+ */
+const msDosDirectoryAttribute = 0x10;
+
 export interface IFileHeader extends ILocalFileHeader {
+  /**
+   * Version made by: the lower byte is the ZIP specification version, the upper byte the host system (see `HostSystem`)
+   */
+  versionMadeBy: number;
+  /**
+   * Host system, upper byte of `versionMadeBy`
+   */
+  hostSystem: number;
   fileCommentLength: number;
+  diskNumberStart: number;
+  /**
+   * Internal file attributes, bit 0: the file is apparently an ASCII or text file
+   */
+  internalAttributes: number;
+  /**
+   * External file attributes, host system dependent
+   */
+  externalAttributes: number;
   relativeOffsetOfLocalHeader: number;
+  /**
+   * File comment
+   */
+  comment: string;
+  /**
+   * Unix file mode (file type and permissions), taken from the upper 16 bits of the external file attributes,
+   * undefined if not available
+   */
+  unixMode?: number;
+  /**
+   * True if the entry is a directory
+   */
+  isDirectory: boolean;
+  /**
+   * True if the entry is a symbolic link, the entry data is the link target
+   */
+  isSymbolicLink: boolean;
 }
 
 /**
@@ -149,23 +465,199 @@ export interface IFileHeader extends ILocalFileHeader {
  *    external file attributes        4 bytes  38
  *    relative offset of local header 4 bytes  42
  */
-export const FileHeader: IGetToken<IFileHeader> = {
+export const FileHeader: IToken<IFileHeader> = {
   get(array: Uint8Array): IFileHeader {
     const flags = UINT16_LE.get(array, 8)
+    const versionMadeBy = UINT16_LE.get(array, 4);
 
     return {
       signature: UINT32_LE.get(array, 0),
+      versionMadeBy,
+      hostSystem: versionMadeBy >>> 8,
       minVersion: UINT16_LE.get(array, 6),
+      flags,
+      encrypted: !!(flags & 0x0001),
       dataDescriptor: !!(flags & 0x0008),
+      utf8: !!(flags & 0x0800),
       compressedMethod: UINT16_LE.get(array, 10),
+      lastModFileTime: UINT16_LE.get(array, 12),
+      lastModFileDate: UINT16_LE.get(array, 14),
+      lastModified: dosDateTimeToDate(UINT16_LE.get(array, 14), UINT16_LE.get(array, 12)),
+      crc32: UINT32_LE.get(array, 16),
       compressedSize: UINT32_LE.get(array, 20),
       uncompressedSize: UINT32_LE.get(array, 24),
       filenameLength: UINT16_LE.get(array, 28),
       extraFieldLength: UINT16_LE.get(array, 30),
 
       fileCommentLength: UINT16_LE.get(array, 32),
+      diskNumberStart: UINT16_LE.get(array, 34),
+      internalAttributes: UINT16_LE.get(array, 36),
+      externalAttributes: UINT32_LE.get(array, 38),
       relativeOffsetOfLocalHeader: UINT32_LE.get(array, 42),
-      filename: null as unknown as string
+      filename: null as unknown as string,
+      comment: '',
+      zip64: false,
+      isDirectory: false,
+      isSymbolicLink: false
+    }
+  },
+  put(array: Uint8Array, offset: number, header: IFileHeader): number {
+    UINT32_LE.put(array, offset, header.signature);
+    UINT16_LE.put(array, offset + 4, header.versionMadeBy);
+    UINT16_LE.put(array, offset + 6, header.minVersion);
+    UINT16_LE.put(array, offset + 8, header.flags);
+    UINT16_LE.put(array, offset + 10, header.compressedMethod);
+    UINT16_LE.put(array, offset + 12, header.lastModFileTime);
+    UINT16_LE.put(array, offset + 14, header.lastModFileDate);
+    UINT32_LE.put(array, offset + 16, header.crc32);
+    UINT32_LE.put(array, offset + 20, header.compressedSize);
+    UINT32_LE.put(array, offset + 24, header.uncompressedSize);
+    UINT16_LE.put(array, offset + 28, header.filenameLength);
+    UINT16_LE.put(array, offset + 30, header.extraFieldLength);
+    UINT16_LE.put(array, offset + 32, header.fileCommentLength);
+    UINT16_LE.put(array, offset + 34, header.diskNumberStart);
+    UINT16_LE.put(array, offset + 36, header.internalAttributes);
+    UINT32_LE.put(array, offset + 38, header.externalAttributes);
+    return UINT32_LE.put(array, offset + 42, header.relativeOffsetOfLocalHeader);
+  },
+  len: 46
+};
+
+/**
+ * 4.5.3 Zip64 Extended Information Extra Field (0x0001)
+ * The fields only appear if the corresponding local or central directory record field is set to 0xFFFF or 0xFFFFFFFF,
+ * always in the following order:
+ *  original uncompressed file size                8 bytes
+ *  size of compressed data                        8 bytes
+ *  offset of local header record                  8 bytes
+ *  number of the disk on which this file starts   4 bytes
+ * @param header Local or central directory file header, updated with the 64-bit values
+ * @param data Extra field data of the ZIP64 extra field block
+ * @return The 64-bit values found in the ZIP64 extra field block
+ */
+export function applyZip64ExtendedInformation(header: ILocalFileHeader | IFileHeader, data: Uint8Array): IZip64ExtendedInformation {
+  const info: IZip64ExtendedInformation = {};
+  let offset = 0;
+  const isCentral = 'relativeOffsetOfLocalHeader' in header;
+  // In the local header, both sizes are mandatory
+  if (header.uncompressedSize === 0xFFFFFFFF || !isCentral) {
+    if (offset + 8 > data.length) return info;
+    info.uncompressedSize = header.uncompressedSize = Number(UINT64_LE.get(data, offset));
+    offset += 8;
+  }
+  if (header.compressedSize === 0xFFFFFFFF || !isCentral) {
+    if (offset + 8 > data.length) return info;
+    info.compressedSize = header.compressedSize = Number(UINT64_LE.get(data, offset));
+    offset += 8;
+  }
+  header.zip64 = true;
+  if (isCentral) {
+    if (header.relativeOffsetOfLocalHeader === 0xFFFFFFFF && offset + 8 <= data.length) {
+      info.relativeOffsetOfLocalHeader = header.relativeOffsetOfLocalHeader = Number(UINT64_LE.get(data, offset));
+      offset += 8;
+    }
+    if (header.diskNumberStart === 0xFFFF && offset + 4 <= data.length) {
+      info.diskNumberStart = header.diskNumberStart = UINT32_LE.get(data, offset);
+    }
+  }
+  return info;
+}
+
+export interface IWinZipAesExtraField {
+  /**
+   * Vendor version: 1 = AE-1, 2 = AE-2 (CRC-32 is not used)
+   */
+  version: number;
+  vendorId: string;
+  /**
+   * Encryption strength: 1 = AES-128, 2 = AES-192, 3 = AES-256
+   */
+  strength: number;
+  /**
+   * Actual compression method, used to compress the file data before encryption
+   */
+  compressionMethod: number;
+}
+
+/**
+ * WinZip AES extra field data (0x9901)
+ * Offset | Bytes| Description
+ * -------|------+-------------------------------------------------------------------
+ *      0 |    2 | Vendor version
+ *      2 |    2 | Vendor ID ("AE")
+ *      4 |    1 | AES encryption strength
+ *      5 |    2 | Actual compression method
+ */
+export const WinZipAesExtraFieldToken: IGetToken<IWinZipAesExtraField> = {
+  get(array: Uint8Array): IWinZipAesExtraField {
+    return {
+      version: UINT16_LE.get(array, 0),
+      vendorId: String.fromCharCode(array[2], array[3]),
+      strength: array[4],
+      compressionMethod: UINT16_LE.get(array, 5)
     }
-  }, len: 46
+  }, len: 7
 };
+
+/**
+ * Decode an MS-DOS date and time
+ * Date: bits 0-4 day, bits 5-8 month, bits 9-15 years since 1980
+ * Time: bits 0-4 seconds / 2, bits 5-10 minutes, bits 11-15 hours
+ * A month or day of 0, like an unset date of 0, is decoded as 1, resulting in 1980-01-01 for a date of 0.
+ * @return Date, in local time
+ */
+export function dosDateTimeToDate(date: number, time: number): Date {
+  return new Date(
+    (date >>> 9) + 1980,
+    Math.max((date >>> 5) & 0x0F, 1) - 1,
+    Math.max(date & 0x1F, 1),
+    time >>> 11,
+    (time >>> 5) & 0x3F,
+    (time & 0x1F) * 2
+  );
+}
+
+/**
+ * Encode a date as MS-DOS date and time, in local time, with a resolution of 2 seconds.
+ * Dates outside the range of MS-DOS timestamps (1980 - 2107) are clamped.
+ * @return MS-DOS date and time
+ */
+export function dateToDosDateTime(date: Date): {date: number, time: number} {
+  const year = date.getFullYear();
+  if (year < 1980) {
+    return {date: (1 << 5) | 1, time: 0};
+  }
+  if (year > 2107) {
+    return {date: (127 << 9) | (12 << 5) | 31, time: (23 << 11) | (59 << 5) | 29};
+  }
+  return {
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >>> 1)
+  };
+}
+
+/**
+ * Decode the Unix mode, directory and symbolic link flags, from the external file attributes and the filename
+ * @param header Central directory file header, including the filename
+ */
+export function decodeFileAttributes(header: IFileHeader): void {
+  if (header.hostSystem === HostSystem.Unix || header.hostSystem === HostSystem.Darwin || (header.externalAttributes >>> 16) !== 0) {
+    header.unixMode = header.externalAttributes >>> 16;
+  }
+  const fileType = header.unixMode === undefined ? 0 : header.unixMode & unixFileTypeMask;
+  header.isSymbolicLink = fileType === unixSymbolicLink;
+  header.isDirectory = fileType === unixDirectory
+    || (header.externalAttributes & msDosDirectoryAttribute) !== 0
+    || header.filename.endsWith('/');
+}
+
+/**
+ * Encode the external file attributes, holding the Unix mode in the upper 16 bits
+ * @param unixMode Unix file mode; if the file type bits are not set, a regular file or directory is assumed
+ * @param isDirectory True if the entry is a directory, also setting the MS-DOS directory attribute
+ * @return External file attributes
+ */
+export function encodeFileAttributes(unixMode: number, isDirectory: boolean): number {
+  const fileType = (unixMode & unixFileTypeMask) || (isDirectory ? unixDirectory : unixRegularFile);
+  return ((unixMode & ~unixFileTypeMask) | fileType) * 0x10000 + (isDirectory ? msDosDirectoryAttribute : 0);
+}
@@ -0,0 +1,347 @@
+import { UINT16_LE, UINT64_LE } from 'token-types';
+import { crc32 } from './Crc32.js';
+import { ArchiveUsageError, UnsupportedCompressionMethodError } from './Errors.js';
+import { collect } from './ZipEntry.js';
+import { Crc32Counter, makeDeflateRawStream, OutputWriter, toStream, toUint8Array, type WriterData } from './OutputWriter.js';
+import {
+  DataDescriptor,
+  DataDescriptor64,
+  dateToDosDateTime,
+  encodeFileAttributes,
+  EndOfCentralDirectoryRecordToken,
+  ExtraFieldId,
+  FileHeader,
+  HostSystem,
+  type IFileHeader,
+  LocalFileHeaderToken,
+  Signature,
+  Zip64EndOfCentralDirectoryLocatorToken,
+  Zip64EndOfCentralDirectoryRecordToken
+} from './ZipToken.js';
+
+/**
+ * Values equal to or exceeding this value are stored in the ZIP64 extended information extra field
+ */
+const maxUint32 = 0xFFFFFFFF;
+const maxUint16 = 0xFFFF;
+
+/**
+ * Version of the ZIP specification: 2.0 (deflate, directories) and 4.5 (ZIP64)
+ */
+const versionDeflate = 20;
+const versionZip64 = 45;
+
+const textEncoder = new TextEncoder();
+
+export interface IZipWriterOptions {
+  /**
+   * Comment of the archive, UTF-8 encoded
+   */
+  comment?: string;
+}
+
+export interface IZipWriterEntryOptions {
+  /**
+   * Compression method: 0 (stored) or 8 (deflate), default 8; directories are always stored
+   */
+  compressionMethod?: number;
+  /**
+   * Last modification time, default the current time
+   */
+  lastModified?: Date;
+  /**
+   * File comment
+   */
+  comment?: string;
+  /**
+   * Unix file mode, default 0o644 for files and 0o755 for directories
+   */
+  unixMode?: number;
+  /**
+   * Write the local file header of an entry, streamed with unknown size, in the ZIP64 format, default `false`.
+   * Required if the streamed data, or its compressed data, may be 4 GiB or larger.
+   */
+  zip64?: boolean;
+}
+
+interface IWrittenEntry {
+  header: IFileHeader;
+  filename: Uint8Array;
+  comment: Uint8Array;
+}
+
+/**
+ * Creates a ZIP archive, streaming the entries to `readable`.
+ * Entries are written in the order they are added.
+ * ZIP64 records are written automatically, if the number of entries, a size or an offset requires it.
+ */
+export class ZipWriter {
+
+  /**
+   * The ZIP archive output, which should be consumed while adding entries
+   */
+  public readonly readable: ReadableStream<Uint8Array>;
+
+  private output = new OutputWriter();
+  private entries: IWrittenEntry[] = [];
+  private closed = false;
+
+  constructor(private options: IZipWriterOptions = {}) {
+    this.readable = this.output.readable;
+  }
+
+  /**
+   * Add a file entry
+   * @param filename Name of the entry, using forward slashes as path separator; a name ending with a slash adds a directory
+   * @param data Data of the entry; a string is UTF-8 encoded.
+   * The size of a `ReadableStream` is unknown in advance, its CRC-32 and sizes are written to a data-descriptor.
+   * @param options Entry options
+   */
+  public add(filename: string, data: WriterData, options: IZipWriterEntryOptions = {}): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new ArchiveUsageError('Cannot add an entry to a closed ZIP writer', {filename}));
+    }
+    return this.output.enqueue(() => this.writeEntry(filename, data, options));
+  }
+
+  /**
+   * Add a directory entry
+   * @param name Name of the directory, a trailing slash is added if missing
+   * @param options Entry options
+   */
+  public addDirectory(name: string, options: IZipWriterEntryOptions = {}): Promise<void> {
+    return this.add(name.endsWith('/') ? name : `${name}/`, new Uint8Array(0), options);
+  }
+
+  /**
+   * Write the central-directory and the end of central directory record, and close the output
+   */
+  public close(): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new ArchiveUsageError('ZIP writer is already closed'));
+    }
+    this.closed = true;
+    return this.output.enqueue(async () => {
+      await this.writeCentralDirectory();
+      await this.output.close();
+    });
+  }
+
+  private async writeEntry(filename: string, data: WriterData, options: IZipWriterEntryOptions): Promise<void> {
+    const isDirectory = filename.endsWith('/');
+    const compressionMethod = isDirectory ? 0 : options.compressionMethod ?? 8;
+    if (compressionMethod !== 0 && compressionMethod !== 8) {
+      throw new UnsupportedCompressionMethodError(compressionMethod, filename);
+    }
+    const encodedFilename = textEncoder.encode(filename);
+    const comment = options.comment ?? '';
+    const encodedComment = textEncoder.encode(comment);
+    if (encodedFilename.length > maxUint16 || encodedComment.length > maxUint16) {
+      throw new ArchiveUsageError(`Filename or comment of "${filename}" exceeds ${maxUint16} bytes`, {filename});
+    }
+    // A non-ASCII character encodes to more UTF-8 bytes than UTF-16 code units
+    const utf8 = encodedFilename.length !== filename.length || encodedComment.length !== comment.length;
+    const lastModified = options.lastModified ?? new Date();
+    const {date, time} = dateToDosDateTime(lastModified);
+    const unixMode = options.unixMode ?? (isDirectory ? 0o755 : 0o644);
+    const externalAttributes = encodeFileAttributes(unixMode, isDirectory);
+
+    const header: IFileHeader = {
+      signature: Signature.CentralFileHeader,
+      versionMadeBy: (HostSystem.Unix << 8) | versionZip64,
+      hostSystem: HostSystem.Unix,
+      minVersion: compressionMethod === 8 || isDirectory ? versionDeflate : 10,
+      flags: utf8 ? 0x0800 : 0,
+      encrypted: false,
+      dataDescriptor: false,
+      utf8,
+      compressedMethod: compressionMethod,
+      lastModFileTime: time,
+      lastModFileDate: date,
+      lastModified,
+      crc32: 0,
+      compressedSize: 0,
+      uncompressedSize: 0,
+      filenameLength: encodedFilename.length,
+      extraFieldLength: 0,
+      filename,
+      zip64: false,
+      fileCommentLength: encodedComment.length,
+      diskNumberStart: 0,
+      internalAttributes: 0,
+      externalAttributes,
+      relativeOffsetOfLocalHeader: this.output.position,
+      comment,
+      unixMode: externalAttributes >>> 16,
+      isDirectory,
+      isSymbolicLink: false
+    };
+    if (data instanceof ReadableStream) {
+      await this.writeStreamedEntry(header, encodedFilename, data, options.zip64 === true);
+    } else {
+      await this.writeBufferedEntry(header, encodedFilename, toUint8Array(data));
+    }
+    this.entries.push({header, filename: encodedFilename, comment: encodedComment});
+  }
+
+  /**
+   * Write an entry of known size, the CRC-32 and sizes are written to the local file header
+   */
+  private async writeBufferedEntry(header: IFileHeader, filename: Uint8Array, data: Uint8Array): Promise<void> {
+    const compressedData = header.compressedMethod === 8 ? await deflateRaw(data) : data;
+    header.crc32 = crc32(data);
+    header.uncompressedSize = data.length;
+    header.compressedSize = compressedData.length;
+    header.zip64 = header.uncompressedSize >= maxUint32 || header.compressedSize >= maxUint32;
+    await this.writeLocalFileHeader(header, filename);
+    await this.output.write(compressedData);
+  }
+
+  /**
+   * Write an entry of unknown size, followed by a data-descriptor with the CRC-32 and sizes
+   */
+  private async writeStreamedEntry(header: IFileHeader, filename: Uint8Array, data: ReadableStream<Uint8Array>, zip64: boolean): Promise<void> {
+    header.flags |= 0x0008;
+    header.dataDescriptor = true;
+    header.zip64 = zip64;
+    await this.writeLocalFileHeader(header, filename);
+
+    const counter = new Crc32Counter();
+    let stream = data.pipeThrough(counter.stream);
+    if (header.compressedMethod === 8) {
+      stream = stream.pipeThrough(makeDeflateRawStream());
+    }
+    const compressedSize = await this.output.writeStream(stream);
+    const {crc32: crc, size: uncompressedSize} = counter;
+    if (!zip64 && (uncompressedSize >= maxUint32 || compressedSize >= maxUint32)) {
+      throw new ArchiveUsageError(`Size of "${header.filename}" requires ZIP64, enable the zip64 option of the entry`, {
+        filename: header.filename,
+        offset: header.relativeOffsetOfLocalHeader
+      });
+    }
+    header.crc32 = crc;
+    header.uncompressedSize = uncompressedSize;
+    header.compressedSize = compressedSize;
+
+    const dataDescriptorToken = zip64 ? DataDescriptor64 : DataDescriptor;
+    const dataDescriptor = new Uint8Array(dataDescriptorToken.len);
+    dataDescriptorToken.put(dataDescriptor, 0, {signature: Signature.DataDescriptor, crc32: crc, compressedSize, uncompressedSize});
+    await this.output.write(dataDescriptor);
+  }
+
+  /**
+   * Write the local file header; in the ZIP64 format, both sizes are stored in the ZIP64 extended information extra field
+   */
+  private async writeLocalFileHeader(header: IFileHeader, filename: Uint8Array): Promise<void> {
+    const extraField = header.zip64 ? makeZip64ExtraField([header.uncompressedSize, header.compressedSize]) : new Uint8Array(0);
+    const record = new Uint8Array(LocalFileHeaderToken.len + filename.length + extraField.length);
+    LocalFileHeaderToken.put(record, 0, {
+      ...header,
+      signature: Signature.LocalFileHeader,
+      minVersion: header.zip64 ? versionZip64 : header.minVersion,
+      compressedSize: header.zip64 ? maxUint32 : header.compressedSize,
+      uncompressedSize: header.zip64 ? maxUint32 : header.uncompressedSize,
+      extraFieldLength: extraField.length
+    });
+    record.set(filename, LocalFileHeaderToken.len);
+    record.set(extraField, LocalFileHeaderToken.len + filename.length);
+    await this.output.write(record);
+  }
+
+  private async writeCentralDirectory(): Promise<void> {
+    const offsetOfStartOfCd = this.output.position;
+    for (const entry of this.entries) {
+      await this.writeCentralDirectoryFileHeader(entry);
+    }
+    const sizeOfCd = this.output.position - offsetOfStartOfCd;
+    const nrOfEntries = this.entries.length;
+
+    if (nrOfEntries >= maxUint16 || sizeOfCd >= maxUint32 || offsetOfStartOfCd >= maxUint32) {
+      const offsetOfZip64Eocd = this.output.position;
+      const zip64Records = new Uint8Array(Zip64EndOfCentralDirectoryRecordToken.len + Zip64EndOfCentralDirectoryLocatorToken.len);
+      const locatorOffset = Zip64EndOfCentralDirectoryRecordToken.put(zip64Records, 0, {
+        signature: Signature.Zip64EndOfCentralDirectory,
+        // Size of the remaining record, excluding the leading 12 bytes
+        directoryRecord: BigInt(Zip64EndOfCentralDirectoryRecordToken.len - 12),
+        versionMadeBy: (HostSystem.Unix << 8) | versionZip64,
+        versionNeedToExtract: versionZip64,
+        nrOfThisDisk: 0,
+        nrOfThisDiskWithTheStart: 0,
+        nrOfEntriesOnThisDisk: BigInt(nrOfEntries),
+        nrOfEntriesOfSize: BigInt(nrOfEntries),
+        sizeOfCd: BigInt(sizeOfCd),
+        offsetOfStartOfCd: BigInt(offsetOfStartOfCd)
+      });
+      Zip64EndOfCentralDirectoryLocatorToken.put(zip64Records, locatorOffset, {
+        signature: Signature.Zip64EndOfCentralDirectoryLocator,
+        nrOfTheDiskWithTheStart: 0,
+        offsetOfZip64Eocd: BigInt(offsetOfZip64Eocd),
+        totalNumberOfDisks: 1
+      });
+      await this.output.write(zip64Records);
+    }
+
+    const comment = textEncoder.encode(this.options.comment ?? '');
+    if (comment.length > maxUint16) {
+      throw new ArchiveUsageError(`Archive comment exceeds ${maxUint16} bytes`);
+    }
+    const eocd = new Uint8Array(EndOfCentralDirectoryRecordToken.len + comment.length);
+    EndOfCentralDirectoryRecordToken.put(eocd, 0, {
+      signature: Signature.EndOfCentralDirectory,
+      nrOfThisDisk: 0,
+      nrOfThisDiskWithTheStart: 0,
+      nrOfEntriesOnThisDisk: Math.min(nrOfEntries, maxUint16),
+      nrOfEntriesOfSize: Math.min(nrOfEntries, maxUint16),
+      sizeOfCd: Math.min(sizeOfCd, maxUint32),
+      offsetOfStartOfCd: Math.min(offsetOfStartOfCd, maxUint32),
+      zipFileCommentLength: comment.length
+    });
+    eocd.set(comment, EndOfCentralDirectoryRecordToken.len);
+    await this.output.write(eocd);
+  }
+
+  /**
+   * Write a central-directory file header; sizes and offset exceeding 32 bits are stored in the ZIP64 extended information extra field
+   */
+  private async writeCentralDirectoryFileHeader(entry: IWrittenEntry): Promise<void> {
+    const {header} = entry;
+    const zip64Values = [header.uncompressedSize, header.compressedSize, header.relativeOffsetOfLocalHeader].filter(value => value >= maxUint32);
+    const extraField = zip64Values.length > 0 ? makeZip64ExtraField(zip64Values) : new Uint8Array(0);
+    const record = new Uint8Array(FileHeader.len + entry.filename.length + extraField.length + entry.comment.length);
+    FileHeader.put(record, 0, {
+      ...header,
+      minVersion: header.zip64 || zip64Values.length > 0 ? versionZip64 : header.minVersion,
+      compressedSize: Math.min(header.compressedSize, maxUint32),
+      uncompressedSize: Math.min(header.uncompressedSize, maxUint32),
+      relativeOffsetOfLocalHeader: Math.min(header.relativeOffsetOfLocalHeader, maxUint32),
+      extraFieldLength: extraField.length
+    });
+    let offset = FileHeader.len;
+    record.set(entry.filename, offset);
+    offset += entry.filename.length;
+    record.set(extraField, offset);
+    record.set(entry.comment, offset + extraField.length);
+    await this.output.write(record);
+  }
+}
+
+/**
+ * Compress the data with raw deflate
+ */
+function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  return collect(toStream(data).pipeThrough(makeDeflateRawStream()));
+}
+
+/**
+ * Make a ZIP64 extended information extra field block
+ * @param values 64-bit values, in the order defined by the specification
+ */
+function makeZip64ExtraField(values: number[]): Uint8Array {
+  const block = new Uint8Array(4 + 8 * values.length);
+  UINT16_LE.put(block, 0, ExtraFieldId.Zip64);
+  UINT16_LE.put(block, 2, 8 * values.length);
+  for (let n = 0; n < values.length; ++n) {
+    UINT64_LE.put(block, 4 + 8 * n, BigInt(values[n]));
+  }
+  return block;
+}
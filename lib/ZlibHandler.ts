@@ -0,0 +1,238 @@
+import type { ITokenizer } from 'strtok3';
+import { UINT16_BE, UINT32_BE } from 'token-types';
+import { adler32 } from './Adler32.js';
+import { CorruptEntryError, isEndOfStreamError, toEntryError, TruncatedArchiveError, ZlibFormatError } from './Errors.js';
+import { type InflateEngine, isNativeEngine } from './Inflater.js';
+import { type IInflateLimits, InflateLimiter } from './InflateLimits.js';
+import { type IInflatedMember, inflateMemberFromTokenizer } from './TokenizerInflate.js';
+
+/**
+ * Compression method (CM) deflate
+ */
+const zlibCompressionMethodDeflate = 8;
+/**
+ * Flag (FLG) bit 5: a preset dictionary identifier (DICTID) follows the header
+ */
+const zlibFlagDictionary = 0x20;
+
+export interface IZlibHandlerOptions {
+  /**
+   * Preset dictionary, required if the zlib stream has been compressed with a preset dictionary (FDICT).
+   * The Adler-32 of the dictionary has to match the dictionary identifier (DICTID) of the stream.
+   */
+  dictionary?: Uint8Array;
+  /**
+   * Verify the Adler-32 of the inflated data against the trailer, default `true`
+   */
+  verifyChecksum?: boolean;
+  /**
+   * Limits protecting against decompression bombs, no limits apply by default.
+   * The zlib stream counts as a single entry, `maxCentralDirectorySize` does not apply.
+   */
+  limits?: IInflateLimits;
+  /**
+   * Engine inflating the compressed data, default 'auto'.
+   * With 'auto' or 'native', the native `DecompressionStream` is used if the `length` of the zlib stream is provided,
+   * and no preset dictionary is used. Otherwise, the built-in inflater finds the exact end of the compressed data.
+   */
+  inflater?: InflateEngine;
+  /**
+   * Length of the zlib stream including header and trailer, if known in advance, like the `/Length` of a PDF stream.
+   * The length is confirmed by the Adler-32 of the trailer, with random-access the built-in inflater finds the end of the compressed data if not.
+   */
+  length?: number;
+}
+
+export interface IZlibHeader {
+  /**
+   * LZ77 window size in bytes, derived from the compression info (CINFO)
+   */
+  windowSize: number;
+  /**
+   * Compression level (FLEVEL): 0 = fastest, 1 = fast, 2 = default, 3 = maximum compression
+   */
+  compressionLevel: number;
+  /**
+   * Preset dictionary identifier (DICTID), the Adler-32 of the dictionary; undefined if no preset dictionary is used
+   */
+  dictionaryId?: number;
+}
+
+/**
+ * Boundaries and trailer of an inflated zlib stream
+ */
+export interface IZlibStreamInfo {
+  header: IZlibHeader;
+  /**
+   * Position of the zlib stream in the tokenizer
+   */
+  offset: number;
+  /**
+   * Position of the compressed (deflate) data in the tokenizer
+   */
+  compressedOffset: number;
+  /**
+   * Exact length of the compressed (deflate) data
+   */
+  compressedSize: number;
+  /**
+   * Total length of the zlib stream, including header and trailer
+   */
+  length: number;
+  /**
+   * Adler-32 of the inflated data, as stored in the trailer
+   */
+  adler32: number;
+}
+
+/**
+ * Decompresses zlib (RFC 1950) data, as found in PDF FlateDecode streams, PNG image data and git objects.
+ * Once inflated, the tokenizer is positioned directly after the zlib stream.
+ */
+export class ZlibHandler {
+  private header?: Promise<IZlibHeader>;
+  private offset = 0;
+  /**
+   * Boundaries and trailer of the zlib stream, set once the zlib stream has been inflated and verified
+   */
+  public info?: IZlibStreamInfo;
+
+  constructor(private tokenizer: ITokenizer, private options: IZlibHandlerOptions = {}) {
+  }
+
+  /**
+   * Read the header of the zlib stream, without inflating the compressed data.
+   * The header is read once, a subsequent call to `inflate()` still returns the complete inflated data.
+   */
+  public readHeader(): Promise<IZlibHeader> {
+    if (!this.header) {
+      this.offset = this.tokenizer.position;
+      this.header = this.parseHeader();
+    }
+    return this.header;
+  }
+
+  /**
+   * Inflate the zlib data
+   */
+  public inflate(): ReadableStream<Uint8Array> {
+    const chunks = this.inflateStream();
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const result = await chunks.next();
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      },
+      async cancel() {
+        await chunks.return();
+      }
+    });
+  }
+
+  private async *inflateStream(): AsyncGenerator<Uint8Array, void> {
+    const verifyChecksum = this.options.verifyChecksum ?? true;
+    const header = await this.readHeader();
+    const offset = this.offset;
+    const context = {filename: '', offset};
+    const limiter = this.options.limits ? new InflateLimiter(this.options.limits) : undefined;
+    limiter?.countEntry();
+    const entryLimiter = limiter?.trackEntry('');
+    const compressedOffset = this.tokenizer.position;
+    const compressedSize = this.getCompressedSize(header, offset, compressedOffset);
+    // The Adler-32 confirms a known compressed size
+    const calculateChecksum = verifyChecksum || compressedSize !== undefined;
+    let adler = 1;
+    let member: IInflatedMember<number>;
+    try {
+      member = yield* inflateMemberFromTokenizer(this.tokenizer, {
+        compressedSize,
+        engine: this.options.inflater,
+        inflaterOptions: {dictionary: header.dictionaryId === undefined ? undefined : this.options.dictionary},
+        makeTruncatedError: () => new TruncatedArchiveError('Unexpected end of zlib stream', context),
+        entryLimiter,
+        onInflated: chunk => {
+          if (calculateChecksum) adler = adler32(chunk, adler);
+        },
+        readTrailer: () => this.tokenizer.readToken(UINT32_BE),
+        confirms: checksum => checksum === adler
+      });
+      if (verifyChecksum && member.trailer !== adler) {
+        throw new CorruptEntryError(`Zlib Adler-32 mismatch: expected 0x${toHex(member.trailer)}, calculated 0x${toHex(adler)}`, context);
+      }
+    } catch (err) {
+      throw toEntryError(err, context);
+    }
+    this.info = {
+      header,
+      offset,
+      compressedOffset,
+      compressedSize: member.compressedSize,
+      length: this.tokenizer.position - offset,
+      adler32: member.trailer
+    };
+  }
+
+  /**
+   * Determine the compressed size from the length of the zlib stream, if provided
+   * @return Compressed size, undefined if unknown, if a preset dictionary is used, or if the built-in inflater is selected
+   */
+  private getCompressedSize(header: IZlibHeader, offset: number, compressedOffset: number): number | undefined {
+    const length = this.options.length;
+    if (length === undefined || header.dictionaryId !== undefined || !isNativeEngine(this.options.inflater)) return;
+    const compressedSize = offset + length - UINT32_BE.len - compressedOffset;
+    return compressedSize >= 0 ? compressedSize : undefined;
+  }
+
+  private async parseHeader(): Promise<IZlibHeader> {
+    const offset = this.tokenizer.position;
+    try {
+      return await this.parseHeaderAt(offset);
+    } catch (err) {
+      if (isEndOfStreamError(err)) {
+        throw new TruncatedArchiveError('Unexpected end of zlib header', {offset, cause: err});
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * @param offset Position of the header, which should be the current tokenizer position
+   */
+  private async parseHeaderAt(offset: number): Promise<IZlibHeader> {
+    const cmfFlg = await this.tokenizer.readToken(UINT16_BE);
+    const cmf = cmfFlg >>> 8;
+    if (cmfFlg % 31 !== 0) {
+      throw new ZlibFormatError(`Invalid zlib header check: 0x${cmfFlg.toString(16).padStart(4, '0')}`, {offset});
+    }
+    if ((cmf & 0x0F) !== zlibCompressionMethodDeflate) {
+      throw new ZlibFormatError(`Unsupported zlib compression method: ${cmf & 0x0F}`, {offset});
+    }
+    const compressionInfo = cmf >>> 4;
+    if (compressionInfo > 7) {
+      throw new ZlibFormatError(`Invalid zlib window size: CINFO ${compressionInfo}`, {offset});
+    }
+    const header: IZlibHeader = {
+      windowSize: 1 << (compressionInfo + 8),
+      compressionLevel: (cmfFlg >>> 6) & 0x03
+    };
+    if (cmfFlg & zlibFlagDictionary) {
+      header.dictionaryId = await this.tokenizer.readToken(UINT32_BE);
+      if (!this.options.dictionary) {
+        throw new ZlibFormatError(`Zlib stream requires a preset dictionary, with DICTID 0x${toHex(header.dictionaryId)}`, {offset});
+      }
+      const dictionaryId = adler32(this.options.dictionary);
+      if (dictionaryId !== header.dictionaryId) {
+        throw new ZlibFormatError(`Preset dictionary does not match DICTID 0x${toHex(header.dictionaryId)}, Adler-32 of the dictionary is 0x${toHex(dictionaryId)}`, {offset});
+      }
+    }
+    return header;
+  }
+}
+
+function toHex(value: number): string {
+  return value.toString(16).padStart(8, '0');
+}
@@ -0,0 +1,45 @@
+import { ArchiveUsageError } from './Errors.js';
+import { OutputWriter, toStream, type WriterData } from './OutputWriter.js';
+
+/**
+ * Compresses data to the zlib format (RFC 1950): deflate compressed data, with a 2-byte header and an Adler-32 trailer.
+ * All data written is compressed as a single zlib stream, streaming the output to `readable`.
+ */
+export class ZlibWriter {
+
+  /**
+   * The zlib output, which should be consumed while writing
+   */
+  public readonly readable: ReadableStream<Uint8Array>;
+
+  private output = new OutputWriter(new CompressionStream('deflate') as unknown as ReadableWritablePair<Uint8Array, Uint8Array>);
+  private closed = false;
+
+  constructor() {
+    this.readable = this.output.readable;
+  }
+
+  /**
+   * Compress data, appended to the data written before
+   * @param data Data to compress; a string is UTF-8 encoded
+   */
+  public write(data: WriterData): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new ArchiveUsageError('Cannot write to a closed zlib writer'));
+    }
+    return this.output.enqueue(async () => {
+      await this.output.writeStream(toStream(data));
+    });
+  }
+
+  /**
+   * Finish the zlib stream, writing the Adler-32 trailer, and close the output
+   */
+  public close(): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new ArchiveUsageError('Zlib writer is already closed'));
+    }
+    this.closed = true;
+    return this.output.enqueue(() => this.output.close());
+  }
+}
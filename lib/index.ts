@@ -1,3 +1,68 @@
 export { ZipHandler } from './ZipHandler.js';
+export type {
+  IZipHandlerOptions,
+  CompressionMethodDecoder,
+  InflateFileFilter,
+  InflateFileFilterResult,
+  InflatedDataHandler,
+  InflatedStreamHandler,
+  RecoveredErrorHandler
+} from './ZipHandler.js';
+export { ZipArchive } from './ZipArchive.js';
+export { ZipEntry } from './ZipEntry.js';
+export { ZipWriter } from './ZipWriter.js';
+export type { IZipWriterOptions, IZipWriterEntryOptions } from './ZipWriter.js';
+export type { WriterData } from './OutputWriter.js';
 export { GzipHandler } from './GzipHandler.js';
-export type { ILocalFileHeader } from './ZipToken.js';
+export type { IGzipHandlerOptions } from './GzipHandler.js';
+export type { IGzipHeader, IGzipExtraSubfield, IGzipMember } from './GzipToken.js';
+export { GzipWriter } from './GzipWriter.js';
+export type { IGzipMemberOptions } from './GzipWriter.js';
+export { ZlibHandler } from './ZlibHandler.js';
+export type { IZlibHandlerOptions, IZlibHeader, IZlibStreamInfo } from './ZlibHandler.js';
+export { ZlibWriter } from './ZlibWriter.js';
+export { TarHandler } from './TarHandler.js';
+export type { ITarEntry, TarEntryFilter } from './TarHandler.js';
+export { TarEntryType } from './TarToken.js';
+export {
+  ArchiveError,
+  ArchiveUsageError,
+  AuthenticationCodeError,
+  CorruptEntryError,
+  Crc32MismatchError,
+  EncryptedEntryError,
+  GzipFormatError,
+  InvalidPasswordError,
+  LimitExceededError,
+  TarFormatError,
+  TruncatedArchiveError,
+  UnsafeEntryNameError,
+  UnsupportedCompressionMethodError,
+  ZipFormatError,
+  ZlibFormatError
+} from './Errors.js';
+export type { IErrorContext } from './Errors.js';
+export type { IInflateLimits } from './InflateLimits.js';
+export type {
+  Crc32Status,
+  IGzipVerificationReport,
+  IVerificationIssue,
+  IZipEntryVerification,
+  IZipVerificationReport,
+  VerificationIssueType
+} from './Verification.js';
+export { Inflater, makeInflateStream } from './Inflater.js';
+export type { IInflaterOptions, InflateEngine } from './Inflater.js';
+export { sanitizePath } from './PathSafety.js';
+export type { ISanitizedPath, PathIssue, PathSafetyMode } from './PathSafety.js';
+export type { ILocalFileHeader, IFileHeader, IWinZipAesExtraField } from './ZipToken.js';
+export { HostSystem } from './ZipToken.js';
+export type {
+  IExtraFields,
+  IExtraFieldBlock,
+  IExtendedTimestamp,
+  INtfsTimestamps,
+  IUnicodePath,
+  IUnixOwnership,
+  IZip64ExtendedInformation
+} from './ExtraField.js';
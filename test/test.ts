@@ -5,11 +5,49 @@ import { fileURLToPath } from 'node:url';
 import {fromBuffer, fromFile, fromStream, fromWebStream, type IRandomAccessTokenizer, type ITokenizer} from 'strtok3';
 import { makeReadableByteFileStream, isTarHeaderChecksumMatches } from "./util.js";
 import { createReadStream } from "node:fs";
+import { PassThrough } from "node:stream";
+import { readFile } from "node:fs/promises";
 import { makeChunkedTokenizerFromS3 } from "@tokenizer/s3";
 import { MockS3Client } from "./S3ClientMockup.js";
 import type { S3Client } from "@aws-sdk/client-s3";
 
-import { ZipHandler, type ILocalFileHeader, GzipHandler } from "../lib/index.js";
+import {
+  ZipHandler,
+  type ILocalFileHeader,
+  GzipHandler,
+  Crc32MismatchError,
+  type IZipHandlerOptions,
+  ZipArchive,
+  type ZipEntry,
+  EncryptedEntryError,
+  InvalidPasswordError,
+  AuthenticationCodeError,
+  UnsupportedCompressionMethodError,
+  type IGzipHandlerOptions,
+  type IGzipMember,
+  TarHandler,
+  TarEntryType,
+  type ITarEntry,
+  HostSystem,
+  UnsafeEntryNameError,
+  type PathIssue,
+  LimitExceededError,
+  ArchiveError,
+  ArchiveUsageError,
+  ZipFormatError,
+  GzipFormatError,
+  TarFormatError,
+  CorruptEntryError,
+  TruncatedArchiveError,
+  ZipWriter,
+  type IZipWriterOptions,
+  GzipWriter,
+  ZlibWriter,
+  ZlibHandler,
+  ZlibFormatError,
+  Inflater,
+  makeInflateStream
+} from "../lib/index.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const fixturePath = join(__dirname, 'fixture');
@@ -19,9 +57,9 @@ interface IExtractedFile {
   data: Uint8Array;
 }
 
-async function extractFilesFromFixture(tokenizer: ITokenizer): Promise<IExtractedFile[]> {
+async function extractFilesFromFixture(tokenizer: ITokenizer, options?: IZipHandlerOptions): Promise<IExtractedFile[]> {
   try {
-    const zipHandler = new ZipHandler(tokenizer);
+    const zipHandler = new ZipHandler(tokenizer, options);
     const files: IExtractedFile[] = [];
     await zipHandler.unzip(zipFile => {
       return {
@@ -302,98 +340,2053 @@ describe('Inflate somefile.csv.zip', () => {
 
 });
 
-function assertFileIsXml(fileData: Uint8Array) {
-  const xmlContent = new TextDecoder('utf-8').decode(fileData);
-  assert.strictEqual(xmlContent.indexOf("<?xml version=\"1.0\""), 0, 'Content is XML');
-}
+describe('Inflate to stream', () => {
 
-describe("Inflate Gunzip", () => {
+  interface IStreamedFile {
+    header: ILocalFileHeader;
+    text?: string;
+  }
 
-  async function isTarGz(tokenizer: ITokenizer): Promise<boolean> {
-    const handler = new GzipHandler(tokenizer);
+  /**
+   * Stream the text of the XML files, leave the stream of other files unconsumed
+   */
+  async function streamFilesFromFixture(tokenizer: ITokenizer): Promise<IStreamedFile[]> {
+    const zipHandler = new ZipHandler(tokenizer);
+    const files: IStreamedFile[] = [];
+    await zipHandler.unzip(zipFile => {
+      return {
+        streamHandler: async stream => {
+          if (zipFile.filename.endsWith('.xml')) {
+            let text = '';
+            const decoder = new TextDecoder();
+            for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+              text += decoder.decode(chunk, {stream: true});
+            }
+            files.push({header: zipFile, text});
+          } else {
+            files.push({header: zipFile});
+          }
+        }
+      };
+    });
+    return files;
+  }
 
-    const stream = handler.inflate();
+  function checkStreamedFiles(files: IStreamedFile[]) {
+    const xmlFiles = files.filter(file => file.header.filename.endsWith('.xml'));
+    assert.isAbove(xmlFiles.length, 1, 'number of streamed XML files');
+    for (const file of xmlFiles) {
+      assert.isDefined(file.text, `text of ${file.header.filename}`);
+      assert.strictEqual(file.text.indexOf('<?xml version='), 0, `${file.header.filename} content is XML`);
+    }
+  }
+
+  it("from file (central-directory)", async () => {
+    const tokenizer = await makeFileTokenizer('file_example_XLSX_10.xlsx');
     try {
-      const dataTokenizer = fromWebStream(stream);
+      checkStreamedFiles(await streamFilesFromFixture(tokenizer));
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("from Node.js-stream (local-header scan, with data-descriptor)", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('file_example_XLSX_10.xlsx');
+    try {
+      checkStreamedFiles(await streamFilesFromFixture(tokenizer));
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("from Node.js-stream (local-header scan, without data-descriptor)", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('fixture.docx');
+    try {
+      checkStreamedFiles(await streamFilesFromFixture(tokenizer));
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+});
+
+describe('CRC-32 verification', () => {
+
+  async function assertCrc32Mismatch(tokenizer: ITokenizer) {
+    let error: unknown;
+    try {
+      await extractFilesFromFixture(tokenizer);
+    } catch (err) {
+      error = err;
+    }
+    assert.instanceOf(error, Crc32MismatchError, 'expected a CRC-32 mismatch');
+    assert.strictEqual((error as Crc32MismatchError).filename, 'corrupt.txt');
+  }
+
+  it("expose CRC-32 on central-directory headers", async () => {
+    const tokenizer = await makeFileTokenizer('fixture.docx');
+    try {
+      const entries = await new ZipHandler(tokenizer).readCentralDirectory();
+      assert.isDefined(entries);
+      assert.strictEqual(entries[0].filename, '[Content_Types].xml');
+      assert.strictEqual(entries[0].crc32, 0x4B278A6D);
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("detect CRC-32 mismatch using the central-directory", async () => {
+    await assertCrc32Mismatch(await makeFileTokenizer('crc-mismatch.zip'));
+  });
+
+  it("detect CRC-32 mismatch using the data-descriptor", async () => {
+    await assertCrc32Mismatch(await makeNodeStreamTokenizer('crc-mismatch.zip'));
+  });
+
+  it("detect CRC-32 mismatch in streamed data", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('crc-mismatch.zip');
+    try {
+      const zipHandler = new ZipHandler(tokenizer);
+      let error: unknown;
       try {
-        return await isTarHeaderChecksumMatches(dataTokenizer);
-      } finally {
-        await dataTokenizer.close();
+        await zipHandler.unzip(() => ({
+          streamHandler: async stream => {
+            await new Response(stream).arrayBuffer();
+          }
+        }));
+      } catch (err) {
+        error = err;
       }
+      assert.instanceOf(error, Crc32MismatchError, 'expected a CRC-32 mismatch');
     } finally {
-      await stream.cancel();
+      await tokenizer.close();
     }
-    return false;
-  }
+  });
 
-  it('Inflate gunzip file', async () => {
-    const tokenizer = await makeFileTokenizer('simple.txt.gz');
-    const gzipHandler = new GzipHandler(tokenizer);
-    const readableStream = gzipHandler.inflate();
-    const reader = readableStream.getReader();
-    let decodedResult = await reader.read();
-    assert.strictEqual(decodedResult.done, false, 'decodedResult.done');
-    const decodedText = new TextDecoder('ascii').decode(decodedResult.value);
-    assert.strictEqual(decodedText,'Lorem ipsum dolor sit amet, consectetur adipiscing elit. \n' +
-      'Sed do eiusmod tempor incididunt ut labore et dolore magna aliqua.\n', 'decoded text');
-    decodedResult = await reader.read();
-    assert.strictEqual(decodedResult.done, true, 'decodedResult.done');
+  it("skip CRC-32 verification", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('crc-mismatch.zip');
+    const files = await extractFilesFromFixture(tokenizer, {verifyCrc: false});
+    assert.deepEqual(files.map(file => file.header.filename), ['valid.txt', 'corrupt.txt']);
   });
 
-  it('Inflate partial file', async () => {
-    const buf = Uint8Array.from([31, 139, 8, 8, 137, 83, 29, 82, 0, 11]);
-    const tokenizer = fromBuffer(buf);
+});
+
+describe('ZipArchive', () => {
 
+  it("list entries and lookup entry by name", async () => {
+    const tokenizer = await makeFileTokenizer('fixture.docx');
     try {
-      const gzipHandler = new GzipHandler(tokenizer);
-      const reader = gzipHandler.inflate().getReader();
+      const archive = await ZipArchive.open(tokenizer);
+      const filenames = archive.entries().map(entry => entry.filename);
+      assert.include(filenames, '[Content_Types].xml');
+      assert.include(filenames, 'word/document.xml');
+      const entry = archive.getEntry('word/document.xml');
+      assert.isDefined(entry, 'getEntry("word/document.xml")');
+      assert.strictEqual(entry.filename, 'word/document.xml');
+      assert.isUndefined(archive.getEntry('not-existing.xml'), 'getEntry("not-existing.xml")');
+    } finally {
+      await tokenizer.close();
+    }
+  });
 
-      let threw = false;
+  it("read entries in any order, and more than once", async () => {
+    const tokenizer = await makeFileTokenizer('fixture.docx');
+    try {
+      const archive = await ZipArchive.open(tokenizer);
+      const document1 = await archive.openEntry('word/document.xml');
+      assertFileIsXml(document1);
+      const contentTypes = await archive.openEntry('[Content_Types].xml');
+      assertFileIsXml(contentTypes);
+      const document2 = await archive.openEntry('word/document.xml');
+      assert.deepEqual(document2, document1, 'Reading the same entry twice');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("read streams of multiple entries simultaneously", async () => {
+    const tokenizer = await makeFileTokenizer('fixture.docx');
+    try {
+      const archive = await ZipArchive.open(tokenizer);
+      const [stream1, stream2] = await Promise.all([
+        archive.openEntryStream('word/document.xml'),
+        archive.openEntryStream('[Content_Types].xml')
+      ]);
+      const [document, contentTypes] = await Promise.all([
+        new Response(stream1).arrayBuffer(),
+        new Response(stream2).arrayBuffer()
+      ]);
+      assert.deepEqual(new Uint8Array(document), await archive.openEntry('word/document.xml'));
+      assert.deepEqual(new Uint8Array(contentTypes), await archive.openEntry('[Content_Types].xml'));
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("read a single entry from S3 mockup", async () => {
+    const tokenizer = await makeS3Tokenizer('fixture.docx');
+    try {
+      const archive = await ZipArchive.open(tokenizer);
+      assertFileIsXml(await archive.openEntry('word/document.xml'));
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("require random-access", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('fixture.docx');
+    try {
+      let error: unknown;
       try {
-        await reader.read();
+        await ZipArchive.open(tokenizer);
       } catch (err) {
-        threw = true;
+        error = err;
+      }
+      assert.instanceOf(error, ArchiveUsageError);
+    } finally {
+      await tokenizer.close();
+    }
+  });
 
-        // Biome-friendly: treat err as unknown
-        const e = err as unknown;
+  it("reject opening an entry which does not exist", async () => {
+    const tokenizer = await makeFileTokenizer('fixture.docx');
+    try {
+      const archive = await ZipArchive.open(tokenizer);
+      const error = await archive.openEntry('missing.xml').catch(err => err);
+      assert.instanceOf(error, ArchiveUsageError);
+      assert.strictEqual(error.filename, 'missing.xml', 'filename');
+    } finally {
+      await tokenizer.close();
+    }
+  });
 
-        if (!(e instanceof Error)) {
-          throw new Error(`Expected a decompression Error, got: ${String(e)}`);
+});
+
+describe('Decrypt traditional PKWARE encryption (ZipCrypto)', () => {
+
+  const expectedLorem = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit.\n'.repeat(40);
+
+  async function extractError(tokenizer: ITokenizer, options?: IZipHandlerOptions): Promise<unknown> {
+    try {
+      await extractFilesFromFixture(tokenizer, options);
+    } catch (err) {
+      return err;
+    }
+    assert.fail('Expected extraction to fail');
+  }
+
+  it("from file", async () => {
+    const tokenizer = await makeFileTokenizer('zipcrypto.zip');
+    const files = await extractFilesFromFixture(tokenizer, {password: 'secret'});
+    assert.strictEqual(files.length, 2, 'number of files');
+    const lorem = findFile(files, 'lorem.txt');
+    assert.isDefined(lorem, 'Find file "lorem.txt"');
+    assert.isTrue(lorem.header.encrypted, 'header.encrypted');
+    assert.strictEqual(new TextDecoder().decode(lorem.data), expectedLorem);
+    const stored = findFile(files, 'stored.txt');
+    assert.isDefined(stored, 'Find file "stored.txt"');
+    assert.strictEqual(new TextDecoder().decode(stored.data), 'ZipCrypto stored entry\n');
+  });
+
+  it("from Node.js-stream, with data-descriptor", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('zipcrypto-data-descriptor.zip');
+    const files = await extractFilesFromFixture(tokenizer, {password: new TextEncoder().encode('secret')});
+    assert.strictEqual(files.length, 1, 'number of files');
+    assert.strictEqual(new TextDecoder().decode(files[0].data), expectedLorem);
+  });
+
+  it("without password", async () => {
+    const error = await extractError(await makeFileTokenizer('zipcrypto.zip'));
+    assert.instanceOf(error, EncryptedEntryError);
+    assert.notInstanceOf(error, InvalidPasswordError);
+    assert.strictEqual((error as EncryptedEntryError).filename, 'lorem.txt');
+  });
+
+  it("with invalid password", async () => {
+    const error = await extractError(await makeNodeStreamTokenizer('zipcrypto.zip'), {password: 'invalid'});
+    assert.instanceOf(error, InvalidPasswordError);
+  });
+
+});
+
+describe('Decrypt WinZip AES encryption', () => {
+
+  const expectedLorem = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit.\n'.repeat(40);
+
+  it("AES-256, AE-1, from file", async () => {
+    const tokenizer = await makeFileTokenizer('winzip-aes256.zip');
+    const files = await extractFilesFromFixture(tokenizer, {password: 'secret'});
+    assert.strictEqual(files.length, 1, 'number of files');
+    const header = files[0].header;
+    assert.strictEqual(header.compressedMethod, 99, 'header.compressedMethod');
+    assert.deepEqual(header.aes, {version: 1, vendorId: 'AE', strength: 3, compressionMethod: 8}, 'header.aes');
+    assert.strictEqual(new TextDecoder().decode(files[0].data), expectedLorem);
+  });
+
+  it("AES-128, AE-2, from Node.js-stream", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('winzip-aes128-ae2.zip');
+    const files = await extractFilesFromFixture(tokenizer, {password: 'secret'});
+    assert.deepEqual(files.map(file => file.header.filename), ['short.txt', 'lorem40.txt']);
+    assert.strictEqual(files[0].header.aes?.version, 2, 'AE-2');
+    assert.strictEqual(new TextDecoder().decode(files[0].data), 'WinZip AES entry\n');
+    assert.strictEqual(new TextDecoder().decode(files[1].data), expectedLorem);
+  });
+
+  it("AES-192, AE-1, from file", async () => {
+    const tokenizer = await makeFileTokenizer('winzip-aes192.zip');
+    const files = await extractFilesFromFixture(tokenizer, {password: 'secret'});
+    assert.strictEqual(files.length, 1, 'number of files');
+    assert.deepEqual(files[0].header.aes, {version: 1, vendorId: 'AE', strength: 2, compressionMethod: 8}, 'header.aes');
+    assert.strictEqual(new TextDecoder().decode(files[0].data), expectedLorem);
+  });
+
+  it("with invalid password", async () => {
+    const tokenizer = await makeFileTokenizer('winzip-aes256.zip');
+    try {
+      await extractFilesFromFixture(tokenizer, {password: 'invalid'});
+      assert.fail('Expected extraction to fail');
+    } catch (err) {
+      assert.instanceOf(err, InvalidPasswordError);
+    }
+  });
+
+  it("detect altered authentication code", async () => {
+    const data = await readFile(join(fixturePath, 'winzip-aes256.zip'));
+    // Alter the last byte of the authentication code, preceding the data-descriptor
+    const offset = data.indexOf(Uint8Array.from([0x50, 0x4B, 0x07, 0x08])) - 1;
+    data[offset] ^= 0xFF;
+    const tokenizer = fromBuffer(new Uint8Array(data));
+    try {
+      await extractFilesFromFixture(tokenizer, {password: 'secret'});
+      assert.fail('Expected extraction to fail');
+    } catch (err) {
+      assert.instanceOf(err, AuthenticationCodeError);
+    }
+  });
+
+});
+
+describe('Inflate Deflate64 (method 9)', () => {
+
+  function checkDeflate64Files(files: IExtractedFile[]) {
+    assert.strictEqual(files.length, 1, 'number of files');
+    const file = files[0];
+    assert.strictEqual(file.header.compressedMethod, 9, 'header.compressedMethod');
+    assert.strictEqual(file.data.length, 53592, 'inflated length');
+    assert.strictEqual(new TextDecoder().decode(file.data.subarray(-14)), 'Deflate64 end\n');
+  }
+
+  it("from file", async () => {
+    const tokenizer = await makeFileTokenizer('deflate64.zip');
+    checkDeflate64Files(await extractFilesFromFixture(tokenizer));
+  });
+
+  it("from web-stream", async () => {
+    const tokenizer = await makeWebStreamTokenizer('deflate64.zip');
+    checkDeflate64Files(await extractFilesFromFixture(tokenizer));
+  });
+
+  it("to stream", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('deflate64.zip');
+    try {
+      const zipHandler = new ZipHandler(tokenizer);
+      let length = 0;
+      await zipHandler.unzip(() => ({
+        streamHandler: async stream => {
+          for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+            length += chunk.length;
+          }
         }
+      }));
+      assert.strictEqual(length, 53592, 'inflated length');
+    } finally {
+      await tokenizer.close();
+    }
+  });
 
-        // no message assertions (Node 20 sometimes returns an empty message)
-        assert.instanceOf(e, Error, 'expected a decompression error');
+});
+
+describe('Custom compression method decoders', () => {
+
+  it("unsupported compression method", async () => {
+    const tokenizer = await makeFileTokenizer('custom-method.zip');
+    try {
+      await extractFilesFromFixture(tokenizer);
+      assert.fail('Expected extraction to fail');
+    } catch (err) {
+      assert.instanceOf(err, UnsupportedCompressionMethodError);
+      assert.strictEqual((err as UnsupportedCompressionMethodError).compressionMethod, 93, 'compressionMethod');
+      assert.strictEqual((err as UnsupportedCompressionMethodError).filename, 'custom.txt', 'filename');
+    }
+  });
+
+  it("decode using a user supplied decoder", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('custom-method.zip');
+    const files = await extractFilesFromFixture(tokenizer, {
+      compressionMethods: {
+        93: () => new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            controller.enqueue(chunk.map(byte => byte ^ 0x5A));
+          }
+        })
       }
+    });
+    assert.deepEqual(files.map(file => file.header.filename), ['stored.txt', 'custom.txt']);
+    assert.strictEqual(new TextDecoder().decode(files[1].data), 'Decoded by a custom decoder\n');
+  });
 
-      assert.isTrue(threw, 'expected reader.read() to throw for partial gzip');
+});
+
+describe('Central-directory metadata', () => {
+
+  it("decode timestamps, attributes and comments", async () => {
+    const tokenizer = await makeFileTokenizer('metadata.zip');
+    try {
+      const archive = await ZipArchive.open(tokenizer);
+      assert.strictEqual(archive.comment, 'Archive comment', 'archive comment');
+      assert.deepEqual(archive.entries().map(entry => entry.filename), ['dir/file.txt', 'dir/', 'link']);
+
+      const [file, dir, link] = archive.entries();
+
+      assert.strictEqual(file.hostSystem, HostSystem.Unix, 'hostSystem');
+      assert.strictEqual(file.versionMadeBy & 0xFF, 30, 'versionMadeBy, specification version');
+      assert.strictEqual(file.comment, 'Comment of file.txt', 'file comment');
+      assert.strictEqual(file.unixMode, 0o100640, 'unixMode');
+      assert.strictEqual(file.internalAttributes & 1, 1, 'internalAttributes: text file');
+      assert.strictEqual(file.diskNumberStart, 0, 'diskNumberStart');
+      assert.strictEqual(file.crc32, 0xCC718F58, 'crc32');
+      assert.isFalse(file.isDirectory, 'isDirectory');
+      assert.isFalse(file.isSymbolicLink, 'isSymbolicLink');
+      assert.strictEqual(file.lastModified.getTime(), new Date(2024, 2, 15, 13, 45, 30).getTime(), 'lastModified');
+
+      assert.strictEqual(dir.comment, 'Comment of dir', 'directory comment');
+      assert.strictEqual(dir.unixMode, 0o40755, 'unixMode');
+      assert.isTrue(dir.isDirectory, 'isDirectory');
+      assert.isFalse(dir.isSymbolicLink, 'isSymbolicLink');
 
+      assert.strictEqual(link.comment, '', 'link comment');
+      assert.isTrue(link.isSymbolicLink, 'isSymbolicLink');
+      assert.isFalse(link.isDirectory, 'isDirectory');
+      assert.strictEqual(new TextDecoder().decode(await archive.openEntry(link)), 'dir/file.txt', 'link target');
     } finally {
       await tokenizer.close();
     }
   });
 
-  it('Inflate small tar.gz file', async () => {
-    const tokenizer = await makeFileTokenizer('fixture-gnu.tgz');
+  it("decode a zero MS-DOS date and time as 1980-01-01", async () => {
+    const zipWriter = new ZipWriter();
+    const output = new Response(zipWriter.readable).arrayBuffer();
+    await zipWriter.add('zero-date.txt', 'Zero date');
+    await zipWriter.close();
+    const data = new Uint8Array(await output);
+    // Clear the time and date of the local file header, and of the central-directory file header
+    data.fill(0, 10, 14);
+    const centralHeader = Buffer.from(data).indexOf(Buffer.from([0x50, 0x4B, 0x01, 0x02]));
+    data.fill(0, centralHeader + 12, centralHeader + 16);
+    const expected = new Date(1980, 0, 1).getTime();
+    const archive = await ZipArchive.open(fromBuffer(data));
+    assert.strictEqual(archive.entries()[0].lastModified.getTime(), expected, 'lastModified of the central-directory');
+    const files = await extractFilesFromFixture(fromBuffer(data));
+    assert.strictEqual(files[0].header.lastModified.getTime(), expected, 'lastModified of the local file header');
+  });
+
+  it("decode the timestamp of the local file header", async () => {
+    const files = await extractFilesFromFixture(await makeNodeStreamTokenizer('metadata.zip'));
+    assert.strictEqual(files[0].header.lastModified.getTime(), new Date(2024, 2, 15, 13, 45, 30).getTime(), 'lastModified');
+  });
+
+});
+
+describe('Extra fields', () => {
+
+  function checkExtraFields(headers: ILocalFileHeader[]) {
+    const timestamps = headers.find(header => header.filename === 'timestamps.txt');
+    assert.isDefined(timestamps, 'Find timestamps.txt');
+    const extraFields = timestamps.extraFields;
+    assert.isDefined(extraFields, 'extraFields');
+    assert.strictEqual(extraFields.extendedTimestamp?.modified?.getTime(), 1700000000000, 'extended timestamp: modified');
+    assert.strictEqual(extraFields.ntfs?.modified.getTime(), 1700000000123, 'NTFS: modified');
+    assert.strictEqual(extraFields.ntfs?.accessed.getTime(), 1700000100000, 'NTFS: accessed');
+    assert.strictEqual(extraFields.ntfs?.created.getTime(), 1700000200000, 'NTFS: created');
+    assert.deepEqual(extraFields.unix, {uid: 1000, gid: 1001}, 'Unix UID/GID');
+    assert.deepEqual(extraFields.unknown, [{id: 0xCAFE, data: Uint8Array.from([1, 2, 3])}], 'unknown blocks');
+
+    const unicode = headers.find(header => header.filename === 'ünïcode.txt');
+    assert.isDefined(unicode, 'Find ünïcode.txt, named by the Unicode path');
+    assert.deepEqual(unicode.extraFields?.unicodePath, {version: 1, crc32: 0x99AA3C1E, path: 'ünïcode.txt'}, 'Unicode path');
+    assert.deepEqual(unicode.extraFields?.unknown, [], 'unknown blocks');
+  }
+
+  it("decode the extra fields of the central-directory", async () => {
+    const tokenizer = await makeFileTokenizer('extra-fields.zip');
     try {
-      assert.isTrue(await isTarGz(tokenizer));
+      const archive = await ZipArchive.open(tokenizer);
+      const headers = archive.entries();
+      checkExtraFields(headers);
+      const timestamps = headers[0].extraFields?.extendedTimestamp;
+      assert.strictEqual(timestamps?.accessed?.getTime(), 1700000100000, 'extended timestamp: accessed');
+      assert.strictEqual(timestamps?.created?.getTime(), 1700000200000, 'extended timestamp: created');
     } finally {
       await tokenizer.close();
     }
   });
 
-  it('Inflate large tar.gz file', async function () {
-    this.timeout(15000); // Increase timeout
-    const result = await fetch("https://cdn.kernel.org/pub/linux/kernel/v6.x/linux-6.7.12.tar.gz");
-    assert.ok(result.ok, 'HTTP request is ok');
-    if (result.body !== null) {
-      const tokenizer = fromWebStream(result.body);
-      try {
-        assert.isTrue(await isTarGz(tokenizer));
-      } finally {
-        await tokenizer.close();
-      }
-    } else {
-      assert.fail('Could not stream HTTP result');
+  it("decode the extra fields of the local file headers", async () => {
+    const files = await extractFilesFromFixture(await makeNodeStreamTokenizer('extra-fields.zip'));
+    checkExtraFields(files.map(file => file.header));
+  });
+
+  it("decode the ZIP64 extended information", async () => {
+    const tokenizer = await makeFileTokenizer('zip64.zip');
+    try {
+      const archive = await ZipArchive.open(tokenizer);
+      const lorem = archive.getEntry('lorem.txt');
+      assert.isDefined(lorem?.extraFields?.zip64, 'ZIP64 extended information');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+});
+
+describe('Filename decoding', () => {
+
+  async function readFilenames(tokenizer: ITokenizer, options?: IZipHandlerOptions): Promise<string[]> {
+    const files = await extractFilesFromFixture(tokenizer, options);
+    return files.map(file => file.header.filename);
+  }
+
+  it("decode filenames from the central-directory", async () => {
+    const tokenizer = await makeFileTokenizer('filenames.zip');
+    try {
+      const archive = await ZipArchive.open(tokenizer);
+      assert.deepEqual(archive.entries().map(entry => entry.filename), ['Grüße.txt', 'ô·û{îΩ.txt', 'utf8-ünïcode.txt', 'stale.txt']);
+      assert.isFalse(archive.entries()[0].utf8, 'CP437 encoded filename');
+      assert.isTrue(archive.entries()[2].utf8, 'UTF-8 encoded filename');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("decode filenames from the local file headers", async () => {
+    const filenames = await readFilenames(await makeNodeStreamTokenizer('filenames.zip'));
+    assert.deepEqual(filenames, ['Grüße.txt', 'ô·û{îΩ.txt', 'utf8-ünïcode.txt', 'stale.txt']);
+  });
+
+  it("decode filenames using a legacy encoding", async () => {
+    const filenames = await readFilenames(await makeFileTokenizer('filenames.zip'), {filenameEncoding: 'shift_jis'});
+    assert.strictEqual(filenames[1], '日本語.txt', 'Shift_JIS encoded filename');
+    assert.strictEqual(filenames[2], 'utf8-ünïcode.txt', 'UTF-8 encoded filename');
+  });
+
+});
+
+describe('Path safety', () => {
+
+  const expectedSanitized: {filename: string, pathIssues: PathIssue[]}[] = [
+    {filename: 'safe.txt', pathIssues: []},
+    {filename: 'evil.txt', pathIssues: ['parent-directory']},
+    {filename: 'etc/passwd', pathIssues: ['absolute']},
+    {filename: 'Windows/win.ini', pathIssues: ['backslash', 'drive-letter', 'absolute']},
+    {filename: 'dir/sub/file.txt', pathIssues: ['backslash']},
+    {filename: 'a/c.txt', pathIssues: ['parent-directory']},
+    {filename: 'nul', pathIssues: ['nul-byte']},
+    {filename: 'Readme.txt', pathIssues: []},
+    {filename: 'README.txt', pathIssues: ['case-collision']},
+    {filename: 'dup.txt', pathIssues: []},
+    {filename: 'dup.txt', pathIssues: ['duplicate']}
+  ];
+
+  it("sanitize entry names of the central-directory", async () => {
+    const tokenizer = await makeFileTokenizer('unsafe-names.zip');
+    try {
+      const archive = await ZipArchive.open(tokenizer, {pathSafety: 'sanitize'});
+      const entries = archive.entries();
+      assert.deepEqual(entries.map(entry => ({filename: entry.filename, pathIssues: entry.pathIssues})), expectedSanitized);
+      assert.strictEqual(entries[1].originalFilename, '../evil.txt', 'originalFilename');
+      assert.isUndefined(entries[0].originalFilename, 'originalFilename of safe name');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("sanitize entry names of the local file headers", async () => {
+    const files = await extractFilesFromFixture(await makeNodeStreamTokenizer('unsafe-names.zip'), {pathSafety: 'sanitize'});
+    assert.deepEqual(files.map(file => file.header.filename), expectedSanitized.map(entry => entry.filename));
+    assert.deepEqual(files[3].header.pathIssues, ['backslash', 'drive-letter', 'absolute']);
+  });
+
+  it("reject unsafe entry names", async () => {
+    const tokenizer = await makeFileTokenizer('unsafe-names.zip');
+    try {
+      await ZipArchive.open(tokenizer, {pathSafety: 'reject'});
+      assert.fail('Expected ZipArchive.open() to fail');
+    } catch (err) {
+      assert.instanceOf(err, UnsafeEntryNameError);
+      assert.strictEqual((err as UnsafeEntryNameError).filename, '../evil.txt', 'filename');
+      assert.deepEqual((err as UnsafeEntryNameError).issues, ['parent-directory'], 'issues');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("reject entry names using backslashes", async () => {
+    const names: [string, PathIssue[]][] = [['dir\\file.txt', ['backslash']], ['..\\evil.txt', ['backslash', 'parent-directory']]];
+    for (const [filename, issues] of names) {
+      const zipWriter = new ZipWriter();
+      const output = new Response(zipWriter.readable).arrayBuffer();
+      await zipWriter.add(filename, 'Data');
+      await zipWriter.close();
+      const error = await ZipArchive.open(fromBuffer(new Uint8Array(await output)), {pathSafety: 'reject'}).catch(err => err);
+      assert.instanceOf(error, UnsafeEntryNameError);
+      assert.strictEqual(error.filename, filename, 'filename');
+      assert.deepEqual(error.issues, issues, 'issues');
+    }
+  });
+
+  it("entry names are passed as stored by default", async () => {
+    const files = await extractFilesFromFixture(await makeNodeStreamTokenizer('unsafe-names.zip'));
+    assert.strictEqual(files[1].header.filename, '../evil.txt', 'filename');
+    assert.isUndefined(files[1].header.pathIssues, 'pathIssues');
+  });
+
+});
+
+describe('Inflate limits', () => {
+
+  async function assertLimitExceeded(promise: Promise<unknown>, limit: string, filename?: string): Promise<void> {
+    try {
+      await promise;
+      assert.fail(`Expected ${limit} to be exceeded`);
+    } catch (err) {
+      assert.instanceOf(err, LimitExceededError);
+      assert.strictEqual((err as LimitExceededError).limit, limit, 'limit');
+      assert.strictEqual((err as LimitExceededError).filename, filename, 'filename');
+    }
+  }
+
+  it('Inflate within limits', async () => {
+    const files = await extractFilesFromFixture(await makeFileTokenizer('bomb.zip'), {
+      limits: {maxEntrySize: 1024 * 1024, maxTotalSize: 1024 * 1024 + 12, maxCompressionRatio: 2000, maxEntries: 2, maxCentralDirectorySize: 1024}
+    });
+    assert.strictEqual(getInflatedFileLength(files, 'zeros.bin'), 1024 * 1024, 'zeros.bin length');
+  });
+
+  it('Stop inflating an entry exceeding maxEntrySize', async () => {
+    const tokenizer = await makeFileTokenizer('bomb.zip');
+    try {
+      const archive = await ZipArchive.open(tokenizer, {limits: {maxEntrySize: 64 * 1024}});
+      const small = await archive.openEntry('small.txt');
+      assert.strictEqual(new TextDecoder().decode(small), 'Small entry\n', 'entry within the limit');
+      await assertLimitExceeded(archive.openEntry('zeros.bin'), 'maxEntrySize', 'zeros.bin');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it('Stop streaming an entry exceeding maxEntrySize', async () => {
+    const tokenizer = await makeNodeStreamTokenizer('bomb.zip');
+    try {
+      const zipHandler = new ZipHandler(tokenizer, {limits: {maxEntrySize: 64 * 1024}});
+      for await (const entry of zipHandler.entries()) {
+        if (entry.filename !== 'zeros.bin') continue;
+        const reader = entry.stream().getReader();
+        let received = 0;
+        await assertLimitExceeded((async () => {
+          for (;;) {
+            const result = await reader.read();
+            if (result.done) break;
+            received += result.value.length;
+          }
+        })(), 'maxEntrySize', 'zeros.bin');
+        assert.isAtMost(received, 64 * 1024, 'received bytes');
+      }
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it('Stop inflating an entry exceeding maxCompressionRatio', async () => {
+    await assertLimitExceeded(extractFilesFromFixture(await makeNodeStreamTokenizer('bomb.zip'), {limits: {maxCompressionRatio: 100}}), 'maxCompressionRatio', 'zeros.bin');
+  });
+
+  it('Stop inflating the archive exceeding maxTotalSize', async () => {
+    await assertLimitExceeded(extractFilesFromFixture(await makeFileTokenizer('fixture.docx'), {limits: {maxTotalSize: 10000}}), 'maxTotalSize', 'word/theme/theme1.xml');
+  });
+
+  it('Reject a central-directory exceeding maxEntries', async () => {
+    await assertLimitExceeded(extractFilesFromFixture(await makeFileTokenizer('fixture.docx'), {limits: {maxEntries: 11}}), 'maxEntries');
+  });
+
+  it('Stop scanning local file headers exceeding maxEntries', async () => {
+    await assertLimitExceeded(extractFilesFromFixture(await makeNodeStreamTokenizer('fixture.docx'), {limits: {maxEntries: 11}}), 'maxEntries');
+  });
+
+  it('Reject a central-directory exceeding maxCentralDirectorySize', async () => {
+    await assertLimitExceeded(extractFilesFromFixture(await makeFileTokenizer('fixture.docx'), {limits: {maxCentralDirectorySize: 100}}), 'maxCentralDirectorySize');
+  });
+
+  it('Reject a number of entries not fitting in the central-directory', async () => {
+    const data = new Uint8Array(await readFile(join(fixturePath, 'bomb.zip')));
+    // Number of entries of the end-of-central-directory record (22 bytes, no comment)
+    data[data.length - 12] = 0xFF;
+    data[data.length - 11] = 0xFF;
+    try {
+      await extractFilesFromFixture(fromBuffer(data));
+      assert.fail('Expected unzip to fail');
+    } catch (err) {
+      assert.match((err as Error).message, /Number of entries \(65535\) exceeds the size of the central-directory/);
+    }
+  });
+
+  it('Stop inflating a gzip member exceeding maxEntrySize', async () => {
+    const gzipHandler = new GzipHandler(await makeNodeStreamTokenizer('zeros.bin.gz'), {limits: {maxEntrySize: 64 * 1024}});
+    await assertLimitExceeded(new Response(gzipHandler.inflate()).arrayBuffer(), 'maxEntrySize', '');
+  });
+
+  it('Stop inflating a gzip member exceeding maxCompressionRatio', async () => {
+    const gzipHandler = new GzipHandler(await makeNodeStreamTokenizer('zeros.bin.gz'), {limits: {maxCompressionRatio: 100}});
+    await assertLimitExceeded(new Response(gzipHandler.inflate()).arrayBuffer(), 'maxCompressionRatio', '');
+  });
+
+  it('Stop inflating gzip members exceeding maxEntries', async () => {
+    const gzipHandler = new GzipHandler(await makeNodeStreamTokenizer('multi-member.txt.gz'), {limits: {maxEntries: 1}});
+    await assertLimitExceeded(new Response(gzipHandler.inflate()).arrayBuffer(), 'maxEntries');
+  });
+
+});
+
+describe('Error classes', () => {
+
+  async function catchError(promise: Promise<unknown>): Promise<ArchiveError> {
+    try {
+      await promise;
+    } catch (err) {
+      assert.instanceOf(err, ArchiveError);
+      return err as ArchiveError;
+    }
+    assert.fail('Expected an error');
+  }
+
+  async function readFixture(fixture: string): Promise<Uint8Array> {
+    return new Uint8Array(await readFile(join(fixturePath, fixture)));
+  }
+
+  it('Raise a ZipFormatError on an unexpected signature', async () => {
+    const error = await catchError(extractFilesFromFixture(fromBuffer(new TextEncoder().encode('This is not a ZIP archive'))));
+    assert.instanceOf(error, ZipFormatError);
+    assert.strictEqual(error.offset, 0, 'offset');
+    assert.isUndefined(error.filename, 'filename');
+  });
+
+  it('Raise a TruncatedArchiveError on a truncated archive', async () => {
+    const data = await readFixture('bomb.zip');
+    const error = await catchError(extractFilesFromFixture(fromBuffer(data.subarray(0, 600))));
+    assert.instanceOf(error, TruncatedArchiveError);
+    assert.strictEqual(error.filename, 'zeros.bin', 'filename');
+    assert.strictEqual(error.offset, 51, 'offset of the local file header');
+    assert.strictEqual((error.cause as Error).name, 'EndOfStreamError', 'cause');
+  });
+
+  it('Raise a CorruptEntryError on invalid compressed data', async () => {
+    const data = await readFixture('bomb.zip');
+    // Replace the first byte of the compressed data, with a deflate block of reserved type 3
+    data[51 + 30 + 'zeros.bin'.length] = 0xFF;
+    const error = await catchError(extractFilesFromFixture(fromBuffer(data)));
+    assert.instanceOf(error, CorruptEntryError);
+    assert.strictEqual(error.filename, 'zeros.bin', 'filename');
+    assert.strictEqual(error.offset, 51, 'offset of the local file header');
+    assert.instanceOf(error.cause, Error, 'cause');
+  });
+
+  it('Provide the offset of a CRC-32 mismatch', async () => {
+    const error = await catchError(extractFilesFromFixture(await makeFileTokenizer('crc-mismatch.zip')));
+    assert.instanceOf(error, Crc32MismatchError);
+    assert.instanceOf(error, CorruptEntryError);
+    assert.strictEqual(error.offset, 92, 'offset of the local file header of corrupt.txt');
+  });
+
+  it('Raise a GzipFormatError on an invalid gzip signature', async () => {
+    const error = await catchError(new GzipHandler(await makeFileTokenizer('fixture.zip')).readHeader());
+    assert.instanceOf(error, GzipFormatError);
+    assert.strictEqual(error.offset, 0, 'offset');
+  });
+
+  it('Raise a TruncatedArchiveError on a truncated gzip member', async () => {
+    const data = await readFixture('zeros.bin.gz');
+    const gzipHandler = new GzipHandler(fromBuffer(data.subarray(0, data.length - 100)));
+    const error = await catchError(new Response(gzipHandler.inflate()).arrayBuffer());
+    assert.instanceOf(error, TruncatedArchiveError);
+    assert.strictEqual(error.offset, 0, 'offset');
+  });
+
+});
+
+describe('Recovery mode', () => {
+
+  async function readFixture(fixture: string): Promise<Uint8Array> {
+    return new Uint8Array(await readFile(join(fixturePath, fixture)));
+  }
+
+  function makeStreamTokenizer(data: Uint8Array): Promise<ITokenizer> {
+    const stream = new PassThrough();
+    stream.end(data);
+    return fromStream(stream);
+  }
+
+  async function recoverFiles(tokenizer: ITokenizer, options?: IZipHandlerOptions): Promise<{names: string[], errors: ArchiveError[]}> {
+    const errors: ArchiveError[] = [];
+    const files = await extractFilesFromFixture(tokenizer, {...options, recover: true, onError: error => errors.push(error)});
+    for (const file of files) {
+      assert.match(new TextDecoder().decode(file.data), /^Line 0 of the \w+ entry\n/, `content of ${file.header.filename}`);
+    }
+    return {names: files.map(file => file.header.filename), errors};
+  }
+
+  // recovery.zip: local file headers of first.txt at 0, second.txt at 125 (data at 165), third.txt at 254 (data at 293),
+  // central-directory at 380
+  it('Skip a corrupt entry listed in the central-directory', async () => {
+    const data = await readFixture('recovery.zip');
+    data[165] = 0xFF;
+    const {names, errors} = await recoverFiles(fromBuffer(data));
+    assert.deepEqual(names, ['first.txt', 'third.txt'], 'recovered entries');
+    assert.strictEqual(errors.length, 1, 'number of errors');
+    assert.instanceOf(errors[0], CorruptEntryError);
+    assert.strictEqual(errors[0].filename, 'second.txt', 'filename');
+    assert.strictEqual(errors[0].offset, 125, 'offset');
+  });
+
+  it('Skip a corrupt entry, scanning the local file headers', async () => {
+    const data = await readFixture('recovery.zip');
+    data[165] = 0xFF;
+    const {names, errors} = await recoverFiles(await makeStreamTokenizer(data));
+    assert.deepEqual(names, ['first.txt', 'third.txt'], 'recovered entries');
+    assert.strictEqual(errors.length, 1, 'number of errors');
+    assert.instanceOf(errors[0], CorruptEntryError);
+  });
+
+  it('Resynchronize after a damaged local file header', async () => {
+    const data = await readFixture('recovery.zip');
+    data[125] = 0x00;
+    const {names, errors} = await recoverFiles(await makeStreamTokenizer(data));
+    assert.deepEqual(names, ['first.txt', 'third.txt'], 'recovered entries');
+    assert.strictEqual(errors.length, 1, 'number of errors');
+    assert.instanceOf(errors[0], ZipFormatError);
+    assert.strictEqual(errors[0].offset, 125, 'offset');
+  });
+
+  it('Fall back to scanning the local file headers, if the central-directory is damaged', async () => {
+    const data = await readFixture('recovery.zip');
+    data[380] = 0x00;
+    const {names, errors} = await recoverFiles(fromBuffer(data));
+    assert.deepEqual(names, ['first.txt', 'second.txt', 'third.txt'], 'recovered entries');
+    assert.isAtLeast(errors.length, 1, 'number of errors');
+    assert.instanceOf(errors[0], ZipFormatError);
+    assert.strictEqual(errors[0].offset, 380, 'offset');
+  });
+
+  it('Salvage the entries of a truncated archive', async () => {
+    const data = await readFixture('recovery.zip');
+    const {names, errors} = await recoverFiles(fromBuffer(data.subarray(0, 300)));
+    assert.deepEqual(names, ['first.txt', 'second.txt'], 'recovered entries');
+    assert.strictEqual(errors.length, 1, 'number of errors');
+    assert.instanceOf(errors[0], TruncatedArchiveError);
+    assert.strictEqual(errors[0].filename, 'third.txt', 'filename');
+  });
+
+  it('Do not recover from exceeding a limit', async () => {
+    try {
+      await recoverFiles(await makeFileTokenizer('recovery.zip'), {limits: {maxEntrySize: 10}});
+      assert.fail('Expected unzip to fail');
+    } catch (err) {
+      assert.instanceOf(err, LimitExceededError);
+    }
+  });
+
+  it('Iterate over the entries, resynchronizing after a damaged local file header', async () => {
+    const data = await readFixture('recovery.zip');
+    data[125] = 0x00;
+    const errors: ArchiveError[] = [];
+    const zipHandler = new ZipHandler(await makeStreamTokenizer(data), {recover: true, onError: error => errors.push(error)});
+    const names: string[] = [];
+    for await (const entry of zipHandler.entries()) {
+      names.push(entry.filename);
+      assert.match(await entry.text(), /^Line 0 of the \w+ entry\n/, `content of ${entry.filename}`);
+    }
+    assert.deepEqual(names, ['first.txt', 'third.txt'], 'recovered entries');
+    assert.strictEqual(errors.length, 1, 'number of errors');
+  });
+
+});
+
+describe('Verify', () => {
+
+  async function readFixture(fixture: string): Promise<Uint8Array> {
+    return new Uint8Array(await readFile(join(fixturePath, fixture)));
+  }
+
+  function makeStreamTokenizer(data: Uint8Array): Promise<ITokenizer> {
+    const stream = new PassThrough();
+    stream.end(data);
+    return fromStream(stream);
+  }
+
+  // recovery.zip: local file headers of first.txt at 0, second.txt at 125 (data at 165), third.txt at 254 (data at 293),
+  // central-directory at 380
+  it('Verify a valid ZIP archive, against the central-directory', async () => {
+    const report = await new ZipHandler(await makeFileTokenizer('recovery.zip')).verify();
+    assert.isTrue(report.valid, 'valid');
+    assert.isTrue(report.centralDirectory, 'centralDirectory');
+    assert.deepEqual(report.entries.map(entry => entry.filename), ['first.txt', 'second.txt', 'third.txt'], 'entries');
+    assert.deepEqual(report.entries.map(entry => entry.crc32), ['valid', 'valid', 'valid'], 'CRC-32 status');
+    assert.deepEqual(report.entries.map(entry => entry.offset), [0, 125, 254], 'offsets');
+    assert.strictEqual(report.prependedDataLength, 0, 'prependedDataLength');
+    assert.strictEqual(report.appendedDataLength, 0, 'appendedDataLength');
+  });
+
+  it('Verify a valid ZIP archive, scanning the local file headers', async () => {
+    const report = await new ZipHandler(await makeStreamTokenizer(await readFixture('recovery.zip'))).verify();
+    assert.isTrue(report.valid, 'valid');
+    assert.isFalse(report.centralDirectory, 'centralDirectory');
+    assert.deepEqual(report.entries.map(entry => entry.crc32), ['valid', 'valid', 'valid'], 'CRC-32 status');
+  });
+
+  it('Verify a ZIP archive with data-descriptors, scanning the local file headers', async () => {
+    const report = await new ZipHandler(await makeStreamTokenizer(await readFixture('zipcrypto-data-descriptor.zip')), {password: new TextEncoder().encode('secret')}).verify();
+    assert.isTrue(report.valid, 'valid');
+    for (const entry of report.entries) {
+      assert.isAbove(entry.compressedSize, 0, `compressed size of ${entry.filename}`);
+    }
+  });
+
+  it('Report a corrupt entry', async () => {
+    const data = await readFixture('recovery.zip');
+    data[165] = 0xFF;
+    const report = await new ZipHandler(fromBuffer(data)).verify();
+    assert.isFalse(report.valid, 'valid');
+    assert.deepEqual(report.entries.map(entry => entry.issues.length), [0, 1, 0], 'number of issues per entry');
+    const [issue] = report.entries[1].issues;
+    assert.oneOf(issue.type, ['corrupt-data', 'crc-mismatch'], 'issue type');
+    assert.strictEqual(issue.filename, 'second.txt', 'filename');
+    assert.strictEqual(issue.offset, 125, 'offset');
+  });
+
+  it('Report a local file header not matching the central-directory', async () => {
+    const data = await readFixture('recovery.zip');
+    data[125 + 30] = 'S'.charCodeAt(0);
+    const report = await new ZipHandler(fromBuffer(data)).verify();
+    assert.isFalse(report.valid, 'valid');
+    assert.deepEqual(report.entries[1].issues.map(issue => issue.type), ['header-mismatch'], 'issues of second.txt');
+    assert.strictEqual(report.entries[1].crc32, 'valid', 'CRC-32 status of second.txt');
+  });
+
+  it('Report data appended to the ZIP archive', async () => {
+    const data = await readFixture('recovery.zip');
+    const report = await new ZipHandler(fromBuffer(new Uint8Array([...data, 1, 2, 3, 4, 5]))).verify();
+    assert.isFalse(report.valid, 'valid');
+    assert.strictEqual(report.appendedDataLength, 5, 'appendedDataLength');
+    assert.deepEqual(report.issues.map(issue => issue.type), ['appended-data'], 'issues');
+  });
+
+  // overlapping.zip: a.txt at [0, 135), containing the local file headers of b.txt at [40, 76) and c.txt at [80, 116)
+  it('Report entries overlapping with any preceding entry', async () => {
+    const report = await new ZipHandler(await makeFileTokenizer('overlapping.zip')).verify();
+    assert.isFalse(report.valid, 'valid');
+    assert.deepEqual(report.entries.map(entry => entry.issues.map(issue => issue.type)), [[], ['overlapping-entries'], ['overlapping-entries']], 'issues per entry');
+    assert.match(report.entries[2].issues[0].message, /"a\.txt"/, 'c.txt overlaps with a.txt');
+    assert.deepEqual(report.issues, [], 'issues');
+  });
+
+  // unreferenced-data.zip: first.txt at [0, 44), second.txt at [54, 100), central-directory at 105
+  it('Report data not referenced by the central-directory', async () => {
+    const report = await new ZipHandler(await makeFileTokenizer('unreferenced-data.zip')).verify();
+    assert.isFalse(report.valid, 'valid');
+    assert.deepEqual(report.entries.map(entry => entry.crc32), ['valid', 'valid'], 'CRC-32 status');
+    assert.deepEqual(report.issues.map(issue => [issue.type, issue.offset]), [['unreferenced-data', 44], ['unreferenced-data', 100]], 'issues');
+  });
+
+  it('Report a damaged central-directory', async () => {
+    const data = await readFixture('recovery.zip');
+    data[380] = 0x00;
+    const report = await new ZipHandler(fromBuffer(data)).verify();
+    assert.isFalse(report.valid, 'valid');
+    assert.isFalse(report.centralDirectory, 'centralDirectory');
+    assert.strictEqual(report.issues[0].type, 'format-error', 'issue type');
+    assert.strictEqual(report.issues[0].offset, 380, 'offset');
+    assert.deepEqual(report.entries.map(entry => entry.crc32), ['valid', 'valid', 'valid'], 'CRC-32 status');
+  });
+
+  it('Verify valid gzip data', async () => {
+    const report = await new GzipHandler(await makeFileTokenizer('multi-member.txt.gz')).verify();
+    assert.isTrue(report.valid, 'valid');
+    assert.strictEqual(report.members.length, 2, 'number of members');
+    assert.strictEqual(report.appendedDataLength, 0, 'appendedDataLength');
+  });
+
+  it('Report a gzip CRC-32 mismatch', async () => {
+    const data = await readFixture('simple.txt.gz');
+    data[data.length - 8] ^= 0xFF;
+    const report = await new GzipHandler(fromBuffer(data), {verifyCrc: false}).verify();
+    assert.isFalse(report.valid, 'valid');
+    assert.deepEqual(report.issues.map(issue => issue.type), ['crc-mismatch'], 'issues');
+  });
+
+  it('Report data appended to gzip data', async () => {
+    const data = await readFixture('simple.txt.gz');
+    const report = await new GzipHandler(await makeStreamTokenizer(new Uint8Array([...data, 0, 0, 0]))).verify();
+    assert.isFalse(report.valid, 'valid');
+    assert.strictEqual(report.appendedDataLength, 3, 'appendedDataLength');
+    assert.deepEqual(report.issues.map(issue => issue.type), ['appended-data'], 'issues');
+  });
+
+});
+
+describe('ZipWriter', () => {
+
+  const lastModified = new Date(2024, 5, 15, 12, 30, 44);
+
+  async function writeZip(addEntries: (zipWriter: ZipWriter) => Promise<void>, options?: IZipWriterOptions): Promise<Uint8Array> {
+    const zipWriter = new ZipWriter(options);
+    const output = new Response(zipWriter.readable).arrayBuffer();
+    await addEntries(zipWriter);
+    await zipWriter.close();
+    return new Uint8Array(await output);
+  }
+
+  function makeStreamTokenizer(data: Uint8Array): Promise<ITokenizer> {
+    const stream = new PassThrough();
+    stream.end(data);
+    return fromStream(stream);
+  }
+
+  function makeDataStream(text: string, repeat: number): ReadableStream<Uint8Array> {
+    let n = 0;
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (n++ < repeat) {
+          controller.enqueue(new TextEncoder().encode(text));
+        } else {
+          controller.close();
+        }
+      }
+    });
+  }
+
+  async function addEntries(zipWriter: ZipWriter): Promise<void> {
+    await zipWriter.addDirectory('docs', {lastModified});
+    await zipWriter.add('docs/stored.txt', 'Stored entry\n', {compressionMethod: 0, lastModified, comment: 'Not compressed'});
+    await zipWriter.add('docs/deflated.txt', new TextEncoder().encode('Deflated entry\n'.repeat(100)), {lastModified, unixMode: 0o600});
+    await zipWriter.add('docs/streamed.txt', makeDataStream('Streamed entry\n', 100), {lastModified});
+    await zipWriter.add('docs/ünïcödé.txt', 'UTF-8 encoded filename\n', {lastModified});
+  }
+
+  it('Round-trip through the central-directory', async () => {
+    const archive = await ZipArchive.open(fromBuffer(await writeZip(addEntries, {comment: 'Archive comment'})));
+    assert.strictEqual(archive.comment, 'Archive comment', 'archive comment');
+    assert.deepEqual(archive.entries().map(entry => entry.filename),
+      ['docs/', 'docs/stored.txt', 'docs/deflated.txt', 'docs/streamed.txt', 'docs/ünïcödé.txt'], 'entries');
+
+    const directory = archive.getEntry('docs/');
+    assert.isDefined(directory);
+    assert.isTrue(directory.isDirectory, 'isDirectory');
+    assert.strictEqual(directory.unixMode, 0o040755, 'unixMode of directory');
+
+    const stored = archive.getEntry('docs/stored.txt');
+    assert.isDefined(stored);
+    assert.strictEqual(stored.compressedMethod, 0, 'compression method');
+    assert.strictEqual(stored.comment, 'Not compressed', 'comment');
+    assert.strictEqual(stored.lastModified.getTime(), lastModified.getTime(), 'lastModified');
+    assert.strictEqual(new TextDecoder().decode(await archive.openEntry(stored)), 'Stored entry\n');
+
+    const deflated = archive.getEntry('docs/deflated.txt');
+    assert.isDefined(deflated);
+    assert.strictEqual(deflated.compressedMethod, 8, 'compression method');
+    assert.isBelow(deflated.compressedSize, deflated.uncompressedSize, 'compressed size');
+    assert.strictEqual(deflated.unixMode, 0o100600, 'unixMode');
+    assert.strictEqual(new TextDecoder().decode(await archive.openEntry(deflated)), 'Deflated entry\n'.repeat(100));
+
+    const streamed = archive.getEntry('docs/streamed.txt');
+    assert.isDefined(streamed);
+    assert.isTrue(streamed.dataDescriptor, 'dataDescriptor');
+    assert.strictEqual(streamed.uncompressedSize, 1500, 'uncompressed size');
+    assert.strictEqual(new TextDecoder().decode(await archive.openEntry(streamed)), 'Streamed entry\n'.repeat(100));
+
+    assert.strictEqual(new TextDecoder().decode(await archive.openEntry('docs/ünïcödé.txt')), 'UTF-8 encoded filename\n');
+  });
+
+  it('Round-trip scanning the local file headers', async () => {
+    const files = await extractFilesFromFixture(await makeStreamTokenizer(await writeZip(addEntries)));
+    assert.deepEqual(files.map(file => new TextDecoder().decode(file.data)), [
+      '',
+      'Stored entry\n',
+      'Deflated entry\n'.repeat(100),
+      'Streamed entry\n'.repeat(100),
+      'UTF-8 encoded filename\n'
+    ], 'content');
+  });
+
+  it('Verify the written archive', async () => {
+    const report = await new ZipHandler(fromBuffer(await writeZip(addEntries))).verify();
+    assert.isTrue(report.valid, 'valid');
+    assert.strictEqual(report.entries.length, 5, 'number of entries');
+  });
+
+  it('Stream an entry with a ZIP64 local file header and data-descriptor', async () => {
+    const data = await writeZip(async zipWriter => {
+      await zipWriter.add('large.txt', makeDataStream('ZIP64 entry\n', 10), {zip64: true});
+    });
+    const files = await extractFilesFromFixture(await makeStreamTokenizer(data));
+    assert.strictEqual(files.length, 1, 'number of files');
+    assert.isTrue(files[0].header.zip64, 'zip64');
+    assert.strictEqual(new TextDecoder().decode(files[0].data), 'ZIP64 entry\n'.repeat(10));
+    assert.isTrue((await new ZipHandler(fromBuffer(data)).verify()).valid, 'valid');
+  });
+
+  it('Write a ZIP64 end of central directory record, for more than 65534 entries', async function () {
+    this.timeout(30000);
+    const nrOfEntries = 0x10000;
+    const data = await writeZip(async zipWriter => {
+      for (let n = 0; n < nrOfEntries; ++n) {
+        await zipWriter.add(`${n}`, new Uint8Array(0), {compressionMethod: 0});
+      }
+    });
+    const fileHeaders = await new ZipHandler(fromBuffer(data)).readCentralDirectory();
+    assert.isDefined(fileHeaders);
+    assert.strictEqual(fileHeaders.length, nrOfEntries, 'number of entries');
+    assert.strictEqual(fileHeaders[nrOfEntries - 1].filename, `${nrOfEntries - 1}`, 'filename of last entry');
+  });
+
+  it('Reject adding an entry after closing', async () => {
+    const zipWriter = new ZipWriter();
+    const output = new Response(zipWriter.readable).arrayBuffer();
+    await zipWriter.close();
+    await output;
+    try {
+      await zipWriter.add('late.txt', 'Too late');
+      assert.fail('Expected add() to fail');
+    } catch (err) {
+      assert.instanceOf(err, ArchiveUsageError);
+      assert.match((err as Error).message, /closed/);
+    }
+  });
+
+  it('Reject an unsupported compression method', async () => {
+    const zipWriter = new ZipWriter();
+    const output = new Response(zipWriter.readable).arrayBuffer().catch(err => err);
+    const error = await zipWriter.add('bzip2.txt', 'Data', {compressionMethod: 12}).catch(err => err);
+    assert.instanceOf(error, UnsupportedCompressionMethodError);
+    assert.strictEqual(error.filename, 'bzip2.txt', 'filename');
+    assert.instanceOf(await output, Error, 'output aborted');
+  });
+
+});
+
+describe('GzipWriter and ZlibWriter', () => {
+
+  async function writeGzip(addMembers: (gzipWriter: GzipWriter) => Promise<void>): Promise<Uint8Array> {
+    const gzipWriter = new GzipWriter();
+    const output = new Response(gzipWriter.readable).arrayBuffer();
+    await addMembers(gzipWriter);
+    await gzipWriter.close();
+    return new Uint8Array(await output);
+  }
+
+  async function inflate(data: Uint8Array): Promise<{data: Uint8Array, members: IGzipMember[]}> {
+    const gzipHandler = new GzipHandler(fromBuffer(data));
+    const inflated = new Uint8Array(await new Response(gzipHandler.inflate()).arrayBuffer());
+    return {data: inflated, members: gzipHandler.members};
+  }
+
+  it('Write the gzip header fields', async () => {
+    const mtime = new Date('2024-06-15T12:30:45Z');
+    const gzipped = await writeGzip(async gzipWriter => {
+      await gzipWriter.addMember('Hello gzip\n', {
+        filename: 'hello.txt',
+        comment: 'Grüße',
+        mtime,
+        extra: [{id: 'AB', data: new Uint8Array([1, 2, 3])}],
+        text: true,
+        headerCrc: true
+      });
+    });
+    const {data, members} = await inflate(gzipped);
+    assert.strictEqual(new TextDecoder().decode(data), 'Hello gzip\n', 'inflated data');
+    const {header} = members[0];
+    assert.strictEqual(header.filename, 'hello.txt', 'FNAME');
+    assert.strictEqual(header.comment, 'Grüße', 'FCOMMENT');
+    assert.strictEqual(header.mtime, mtime.getTime() / 1000, 'MTIME');
+    assert.deepEqual(header.extra, [{id: 'AB', data: new Uint8Array([1, 2, 3])}], 'FEXTRA');
+    assert.isTrue(header.text, 'FTEXT');
+    assert.isTrue(header.headerCrc, 'FHCRC');
+  });
+
+  it('Round-trip binary data', async () => {
+    const input = new Uint8Array(100000);
+    for (let i = 0; i < input.length; ++i) {
+      input[i] = (i * 7919) % 251;
+    }
+    const {data, members} = await inflate(await writeGzip(gzipWriter => gzipWriter.addMember(input)));
+    assert.deepEqual(data, input, 'inflated data');
+    assert.strictEqual(members[0].size, input.length, 'ISIZE');
+    assert.isUndefined(members[0].header.filename, 'FNAME');
+    assert.strictEqual(members[0].header.mtime, 0, 'MTIME');
+  });
+
+  it('Write multiple members', async () => {
+    const gzipped = await writeGzip(async gzipWriter => {
+      await gzipWriter.addMember('First member\n', {filename: 'first.txt'});
+      await gzipWriter.addMember(new Response('Second member\n').body as ReadableStream<Uint8Array>, {filename: 'second.txt'});
+    });
+    const {data, members} = await inflate(gzipped);
+    assert.strictEqual(new TextDecoder().decode(data), 'First member\nSecond member\n', 'inflated data');
+    assert.deepEqual(members.map(member => member.header.filename), ['first.txt', 'second.txt'], 'member filenames');
+    assert.strictEqual(members[1].offset + members[1].length, gzipped.length, 'end of last member');
+  });
+
+  it('Reject a filename which cannot be encoded in ISO 8859-1', async () => {
+    const gzipWriter = new GzipWriter();
+    const output = new Response(gzipWriter.readable).arrayBuffer().catch(err => err);
+    try {
+      await gzipWriter.addMember('data', {filename: '日本.txt'});
+      assert.fail('Expected addMember() to fail');
+    } catch (err) {
+      assert.instanceOf(err, ArchiveUsageError);
+      assert.match((err as Error).message, /ISO 8859-1/);
+    }
+    assert.instanceOf(await output, Error, 'output aborted');
+  });
+
+  it('Reject an mtime outside the range of the MTIME field', async () => {
+    for (const mtime of [-1, 0x100000000, new Date(Date.UTC(2107, 0, 1))]) {
+      const gzipWriter = new GzipWriter();
+      const output = new Response(gzipWriter.readable).arrayBuffer().catch(err => err);
+      const error = await gzipWriter.addMember('data', {mtime}).catch(err => err);
+      assert.instanceOf(error, ArchiveUsageError, `mtime ${mtime}`);
+      assert.instanceOf(await output, Error, 'output aborted');
+    }
+  });
+
+  it('Write a zlib stream', async () => {
+    const zlibWriter = new ZlibWriter();
+    const output = new Response(zlibWriter.readable).arrayBuffer();
+    await zlibWriter.write('First part, ');
+    await zlibWriter.write(new Response('second part').body as ReadableStream<Uint8Array>);
+    await zlibWriter.close();
+    const compressed = new Uint8Array(await output);
+    assert.strictEqual(compressed[0] & 0x0F, 8, 'CM: deflate');
+    assert.strictEqual(((compressed[0] << 8) | compressed[1]) % 31, 0, 'FCHECK');
+    const inflated = new Response(new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate')));
+    assert.strictEqual(await inflated.text(), 'First part, second part', 'inflated data');
+  });
+
+});
+
+describe('Inflate zlib', () => {
+
+  const dictionary = new TextEncoder().encode('The quick brown fox jumps over the lazy dog. ');
+
+  function makeStreamTokenizer(data: Uint8Array): Promise<ITokenizer> {
+    const stream = new PassThrough();
+    stream.end(data);
+    return fromStream(stream);
+  }
+
+  async function writeZlib(text: string): Promise<Uint8Array> {
+    const zlibWriter = new ZlibWriter();
+    const output = new Response(zlibWriter.readable).arrayBuffer();
+    await zlibWriter.write(text);
+    await zlibWriter.close();
+    return new Uint8Array(await output);
+  }
+
+  async function inflateText(zlibHandler: ZlibHandler): Promise<string> {
+    return new Response(zlibHandler.inflate()).text();
+  }
+
+  it('Inflate, positioning the tokenizer directly after the zlib stream', async () => {
+    const compressed = await writeZlib('Zlib compressed data\n'.repeat(100));
+    const tokenizer = await makeStreamTokenizer(new Uint8Array([...compressed, ...new TextEncoder().encode('endstream')]));
+    const zlibHandler = new ZlibHandler(tokenizer);
+    assert.strictEqual(await inflateText(zlibHandler), 'Zlib compressed data\n'.repeat(100), 'inflated data');
+    assert.isDefined(zlibHandler.info);
+    assert.strictEqual(zlibHandler.info.length, compressed.length, 'length');
+    assert.strictEqual(zlibHandler.info.compressedOffset, 2, 'compressedOffset');
+    assert.strictEqual(zlibHandler.info.compressedSize, compressed.length - 6, 'compressedSize');
+    assert.strictEqual(tokenizer.position, compressed.length, 'tokenizer position');
+    const trailing = new Uint8Array(9);
+    await tokenizer.readBuffer(trailing);
+    assert.strictEqual(new TextDecoder().decode(trailing), 'endstream', 'data following the zlib stream');
+  });
+
+  it('Read the header', async () => {
+    const header = await new ZlibHandler(fromBuffer(await writeZlib('Header'))).readHeader();
+    assert.strictEqual(header.windowSize, 32768, 'windowSize');
+    assert.isUndefined(header.dictionaryId, 'dictionaryId');
+  });
+
+  it('Inflate with a preset dictionary', async () => {
+    const zlibHandler = new ZlibHandler(await makeFileTokenizer('dictionary.zlib'), {dictionary});
+    const header = await zlibHandler.readHeader();
+    assert.strictEqual(header.dictionaryId, 0x7c0c1028, 'dictionaryId');
+    assert.strictEqual(await inflateText(zlibHandler), 'The lazy dog sleeps, the quick brown fox jumps over the lazy dog again.\n'.repeat(3));
+  });
+
+  it('Reject a zlib stream requiring a preset dictionary, without dictionary', async () => {
+    try {
+      await inflateText(new ZlibHandler(await makeFileTokenizer('dictionary.zlib')));
+      assert.fail('Expected inflate to fail');
+    } catch (err) {
+      assert.instanceOf(err, ZlibFormatError);
+      assert.match((err as Error).message, /preset dictionary/);
+    }
+  });
+
+  it('Reject an invalid header', async () => {
+    try {
+      await new ZlibHandler(fromBuffer(new Uint8Array([0x78, 0x9D, 0, 0]))).readHeader();
+      assert.fail('Expected readHeader() to fail');
+    } catch (err) {
+      assert.instanceOf(err, ZlibFormatError);
+    }
+  });
+
+  it('Detect an Adler-32 mismatch', async () => {
+    const compressed = await writeZlib('Checksum protected');
+    compressed[compressed.length - 1] ^= 0xFF;
+    try {
+      await inflateText(new ZlibHandler(fromBuffer(compressed)));
+      assert.fail('Expected inflate to fail');
+    } catch (err) {
+      assert.instanceOf(err, CorruptEntryError);
+      assert.match((err as Error).message, /Adler-32 mismatch/);
+    }
+    assert.strictEqual(await inflateText(new ZlibHandler(fromBuffer(compressed), {verifyChecksum: false})), 'Checksum protected');
+  });
+
+  /**
+   * Count the native decoders created, while running the callback
+   */
+  async function countNativeDecoders(callback: () => Promise<void>): Promise<number> {
+    const decompressionStream = globalThis.DecompressionStream;
+    let count = 0;
+    globalThis.DecompressionStream = class extends decompressionStream {
+      constructor(format: CompressionFormat) {
+        super(format);
+        ++count;
+      }
+    };
+    try {
+      await callback();
+    } finally {
+      globalThis.DecompressionStream = decompressionStream;
+    }
+    return count;
+  }
+
+  it('Inflate with the native decoder, if the length is provided', async () => {
+    const compressed = await writeZlib('Zlib compressed data\n'.repeat(100));
+    const tokenizer = await makeStreamTokenizer(new Uint8Array([...compressed, ...new TextEncoder().encode('endstream')]));
+    const zlibHandler = new ZlibHandler(tokenizer, {length: compressed.length});
+    let text = '';
+    const count = await countNativeDecoders(async () => {
+      text = await inflateText(zlibHandler);
+    });
+    assert.strictEqual(count, 1, 'native decoders');
+    assert.strictEqual(text, 'Zlib compressed data\n'.repeat(100), 'inflated data');
+    assert.strictEqual(zlibHandler.info?.compressedSize, compressed.length - 6, 'compressedSize');
+    assert.strictEqual(tokenizer.position, compressed.length, 'tokenizer position');
+  });
+
+  it('Inflate with the built-in inflater, if the provided length is wrong, with random-access', async () => {
+    const compressed = await writeZlib('Zlib compressed data\n'.repeat(100));
+    const zlibHandler = new ZlibHandler(fromBuffer(new Uint8Array([...compressed, 0, 0, 0, 0])), {length: compressed.length + 4});
+    assert.strictEqual(await inflateText(zlibHandler), 'Zlib compressed data\n'.repeat(100), 'inflated data');
+    assert.strictEqual(zlibHandler.info?.length, compressed.length, 'length');
+  });
+
+  it('Inflate with the built-in inflater, if selected', async () => {
+    const compressed = await writeZlib('Built-in');
+    const count = await countNativeDecoders(async () => {
+      assert.strictEqual(await inflateText(new ZlibHandler(fromBuffer(compressed), {length: compressed.length, inflater: 'builtin'})), 'Built-in');
+    });
+    assert.strictEqual(count, 0, 'native decoders');
+  });
+
+});
+
+describe('Built-in inflater', () => {
+
+  function getContents(files: IExtractedFile[]): Record<string, string> {
+    return Object.fromEntries(files.map(file => [file.header.filename, new TextDecoder().decode(file.data)]));
+  }
+
+  it('Inflate with the built-in inflater', async () => {
+    const native = await extractFilesFromFixture(await makeFileTokenizer('fixture.docx'), {inflater: 'native'});
+    const builtin = await extractFilesFromFixture(await makeFileTokenizer('fixture.docx'), {inflater: 'builtin'});
+    assert.deepEqual(getContents(builtin), getContents(native), 'inflated files');
+  });
+
+  it('Fall back to the built-in inflater, if DecompressionStream is not available', async () => {
+    const decompressionStream = globalThis.DecompressionStream;
+    Reflect.deleteProperty(globalThis, 'DecompressionStream');
+    try {
+      const files = await extractFilesFromFixture(await makeNodeStreamTokenizer('fixture.docx'));
+      assert.isAbove(files.length, 0, 'number of files');
+      assertFileIsXml(files.find(file => file.header.filename === '[Content_Types].xml')?.data as Uint8Array);
+    } finally {
+      globalThis.DecompressionStream = decompressionStream;
+    }
+  });
+
+  it('Report the exact number of compressed bytes consumed', async () => {
+    const text = 'Exact end of the deflate stream\n'.repeat(50);
+    const compressed = new Uint8Array(await new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer());
+    const inflater = new Inflater();
+    inflater.push(new Uint8Array([...compressed, 1, 2, 3]));
+    let inflated = '';
+    for (let chunk = inflater.inflate(); chunk; chunk = inflater.inflate()) {
+      inflated += new TextDecoder().decode(chunk);
+    }
+    assert.isTrue(inflater.finished, 'finished');
+    assert.strictEqual(inflated, text, 'inflated data');
+    assert.strictEqual(inflater.bytesConsumed, compressed.length, 'bytesConsumed');
+    assert.deepEqual(inflater.unconsumed, new Uint8Array([1, 2, 3]), 'unconsumed');
+  });
+
+  it('Reject data following the end of the compressed data, in a stream', async () => {
+    const compressed = new Uint8Array(await new Response(new Blob(['Followed by junk']).stream().pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer());
+    for (const chunks of [[new Uint8Array([...compressed, 1, 2, 3])], [compressed, new Uint8Array([1, 2, 3])]]) {
+      const error = await new Response(new Blob(chunks).stream().pipeThrough(makeInflateStream())).text().catch(err => err);
+      assert.instanceOf(error, Error);
+      assert.match(error.message, /data following the end of the compressed data/);
+    }
+  });
+
+  it('Reject a ZIP entry with data following the end of the compressed data', async () => {
+    const error = await extractFilesFromFixture(await makeFileTokenizer('deflate-trailing-data.zip'), {inflater: 'builtin'}).catch(err => err);
+    assert.instanceOf(error, CorruptEntryError);
+    assert.strictEqual(error.filename, 'trailing.txt', 'filename');
+  });
+
+});
+
+describe('Data-descriptor entries without random-access', () => {
+
+  async function readFixture(fixture: string): Promise<Uint8Array> {
+    return new Uint8Array(await readFile(join(fixturePath, fixture)));
+  }
+
+  function makeStreamTokenizer(data: Uint8Array): Promise<ITokenizer> {
+    const stream = new PassThrough();
+    stream.end(data);
+    return fromStream(stream);
+  }
+
+  // data-descriptor.zip: entries without sizes in the local file header, of which the data contains false data-descriptor signatures:
+  // stored.bin (data-descriptor at 114), deflate-stored-block.txt (data-descriptor without signature), deflate.txt (data-descriptor at 380)
+  const expectedContent = [
+    'Stored data, containing a false data-descriptor: PK\x07\x08\x78\x56\x34\x12\x0A\x00\x00\x00\x0A\x00\x00\x00PK\x03\x04 end\n',
+    `Deflate stored block, containing a false data-descriptor: PK\x07\x08${'\x00'.repeat(12)}PK\x01\x02 end\n`,
+    'The quick brown fox jumps over the lazy dog.\n'.repeat(20)
+  ];
+
+  it('Find the end of stored and deflate compressed entries', async () => {
+    const files = await extractFilesFromFixture(await makeNodeStreamTokenizer('data-descriptor.zip'));
+    assert.deepEqual(files.map(file => file.header.filename), ['stored.bin', 'deflate-stored-block.txt', 'deflate.txt'], 'filenames');
+    assert.deepEqual(files.map(file => new TextDecoder('latin1').decode(file.data)), expectedContent, 'content');
+  });
+
+  it('Verify the sizes of the data-descriptors, scanning the local file headers', async () => {
+    const report = await new ZipHandler(await makeStreamTokenizer(await readFixture('data-descriptor.zip'))).verify();
+    assert.isTrue(report.valid, 'valid');
+    assert.deepEqual(report.entries.map(entry => entry.uncompressedSize), expectedContent.map(content => content.length), 'uncompressed sizes');
+  });
+
+  it('Find the end of a stored entry with a ZIP64 data-descriptor', async () => {
+    const content = `Stored, with a false data-descriptor: PK\x07\x08${'\x00'.repeat(20)}PK\x03\x04\n`;
+    const zipWriter = new ZipWriter();
+    const output = new Response(zipWriter.readable).arrayBuffer();
+    await zipWriter.add('stored.bin', new Blob([new TextEncoder().encode(content)]).stream(), {compressionMethod: 0, zip64: true});
+    await zipWriter.add('next.txt', 'Next entry');
+    await zipWriter.close();
+    const files = await extractFilesFromFixture(await makeStreamTokenizer(new Uint8Array(await output)));
+    assert.deepEqual(files.map(file => new TextDecoder().decode(file.data)), [content, 'Next entry'], 'content');
+  });
+
+  it('Reject a data-descriptor not matching the compressed size', async () => {
+    const data = await readFixture('data-descriptor.zip');
+    data[380 + 8] ^= 1; // Compressed size of deflate.txt
+    const error = await extractFilesFromFixture(await makeStreamTokenizer(data)).catch(err => err);
+    assert.instanceOf(error, ZipFormatError);
+    assert.strictEqual(error.filename, 'deflate.txt', 'filename');
+    assert.match(error.message, /does not match the compressed data/);
+  });
+
+  it('Reject a data-descriptor not matching the uncompressed size', async () => {
+    const data = await readFixture('data-descriptor.zip');
+    data[380 + 12] ^= 1; // Uncompressed size of deflate.txt
+    const error = await extractFilesFromFixture(await makeStreamTokenizer(data)).catch(err => err);
+    assert.instanceOf(error, ZipFormatError);
+    assert.strictEqual(error.filename, 'deflate.txt', 'filename');
+    assert.match(error.message, /does not match the inflated data/);
+  });
+
+});
+
+describe('Iterate over entries', () => {
+
+  async function readEntries(tokenizer: ITokenizer): Promise<{names: string[], contentTypes?: string}> {
+    try {
+      const names: string[] = [];
+      let contentTypes: string | undefined;
+      for await (const entry of new ZipHandler(tokenizer).entries()) {
+        names.push(entry.filename);
+        if (entry.filename === '[Content_Types].xml') {
+          contentTypes = await entry.text();
+        }
+      }
+      return {names, contentTypes};
+    } finally {
+      await tokenizer.close();
+    }
+  }
+
+  it("using the central-directory", async () => {
+    const {names, contentTypes} = await readEntries(await makeFileTokenizer('fixture.docx'));
+    assert.strictEqual(names.length, 12, 'number of entries');
+    assert.isDefined(contentTypes, 'read [Content_Types].xml');
+    assertFileIsXml(new TextEncoder().encode(contentTypes));
+  });
+
+  it("scanning the local file headers", async () => {
+    const {names, contentTypes} = await readEntries(await makeNodeStreamTokenizer('fixture.docx'));
+    const tokenizer = await makeFileTokenizer('fixture.docx');
+    const centralDirectory = await readEntries(tokenizer);
+    assert.sameMembers(names, centralDirectory.names, 'entries');
+    assert.strictEqual(contentTypes, centralDirectory.contentTypes, '[Content_Types].xml');
+  });
+
+  it("scanning entries with a data-descriptor", async () => {
+    const tokenizer = await makeWebStreamTokenizer('zip64-data-descriptor.zip');
+    try {
+      const entries: string[] = [];
+      for await (const entry of new ZipHandler(tokenizer).entries()) {
+        if (entry.filename === 'stored.txt') {
+          const data = new Uint8Array(await entry.arrayBuffer());
+          assert.strictEqual(new TextDecoder().decode(data), 'ZIP64 stored entry\n');
+        }
+        entries.push(entry.filename);
+      }
+      assert.deepEqual(entries, ['lorem.txt', 'stored.txt']);
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("stream the data of an entry", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('zip64-data-descriptor.zip');
+    try {
+      for await (const entry of new ZipHandler(tokenizer).entries()) {
+        if (entry.filename === 'stored.txt') {
+          const text = await new Response(entry.stream()).text();
+          assert.strictEqual(text, 'ZIP64 stored entry\n');
+        }
+      }
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("exiting the loop early, moves the tokenizer to the next local file header", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('fixture.docx');
+    try {
+      for await (const entry of new ZipHandler(tokenizer).entries()) {
+        assert.strictEqual(entry.filename, '[Content_Types].xml');
+        break;
+      }
+      assert.isTrue(await new ZipHandler(tokenizer).isZip(), 'Expect next local file header');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("reading the data after advancing to the next entry fails", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('fixture.docx');
+    try {
+      const entries: ZipEntry[] = [];
+      for await (const entry of new ZipHandler(tokenizer).entries()) {
+        entries.push(entry);
+      }
+      try {
+        await entries[0].text();
+        assert.fail('Expected reading expired entry to fail');
+      } catch (err) {
+        assert.instanceOf(err, ArchiveUsageError);
+        assert.match((err as Error).message, /no longer available/);
+      }
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+});
+
+describe('Inflate ZIP64', () => {
+
+  const expectedLorem = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit.\n'.repeat(40);
+
+  function checkZip64Files(files: IExtractedFile[]) {
+    assert.strictEqual(files.length, 2, 'number of files');
+    const lorem = findFile(files, 'lorem.txt');
+    assert.isDefined(lorem, 'Find file "lorem.txt"');
+    assert.isTrue(lorem.header.zip64, 'lorem.txt header.zip64');
+    assert.strictEqual(new TextDecoder().decode(lorem.data), expectedLorem);
+    const stored = findFile(files, 'stored.txt');
+    assert.isDefined(stored, 'Find file "stored.txt"');
+    assert.strictEqual(new TextDecoder().decode(stored.data), 'ZIP64 stored entry\n');
+  }
+
+  it("read the central-directory via the ZIP64 end-of-central-directory record", async () => {
+    const tokenizer = await makeFileTokenizer('zip64.zip');
+    try {
+      const zipHandler = new ZipHandler(tokenizer);
+      const entries = await zipHandler.readCentralDirectory();
+      assert.isDefined(entries, 'central-directory entries');
+      assert.deepEqual(entries.map(entry => entry.filename), ['lorem.txt', 'stored.txt']);
+      assert.isTrue(entries[0].zip64, 'entries[0].zip64');
+      assert.strictEqual(entries[0].uncompressedSize, 2280, 'entries[0].uncompressedSize');
+      assert.strictEqual(entries[1].relativeOffsetOfLocalHeader, 132, 'entries[1].relativeOffsetOfLocalHeader');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it("from file", async () => {
+    const tokenizer = await makeFileTokenizer('zip64.zip');
+    checkZip64Files(await extractFilesFromFixture(tokenizer));
+  });
+
+  it("from Node.js-stream", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('zip64.zip');
+    checkZip64Files(await extractFilesFromFixture(tokenizer));
+  });
+
+  it("with ZIP64 data-descriptor, from Node.js-stream", async () => {
+    const tokenizer = await makeNodeStreamTokenizer('zip64-data-descriptor.zip');
+    checkZip64Files(await extractFilesFromFixture(tokenizer));
+  });
+
+  it("with ZIP64 data-descriptor, from file", async () => {
+    const tokenizer = await makeFileTokenizer('zip64-data-descriptor.zip');
+    checkZip64Files(await extractFilesFromFixture(tokenizer));
+  });
+
+});
+
+function assertFileIsXml(fileData: Uint8Array) {
+  const xmlContent = new TextDecoder('utf-8').decode(fileData);
+  assert.strictEqual(xmlContent.indexOf("<?xml version=\"1.0\""), 0, 'Content is XML');
+}
+
+describe("Inflate Gunzip", () => {
+
+  async function isTarGz(tokenizer: ITokenizer): Promise<boolean> {
+    const handler = new GzipHandler(tokenizer);
+
+    const stream = handler.inflate();
+    try {
+      const dataTokenizer = fromWebStream(stream);
+      try {
+        return await isTarHeaderChecksumMatches(dataTokenizer);
+      } finally {
+        await dataTokenizer.close();
+      }
+    } finally {
+      await stream.cancel();
+    }
+    return false;
+  }
+
+  it('Inflate gunzip file', async () => {
+    const tokenizer = await makeFileTokenizer('simple.txt.gz');
+    const gzipHandler = new GzipHandler(tokenizer);
+    const readableStream = gzipHandler.inflate();
+    const reader = readableStream.getReader();
+    let decodedResult = await reader.read();
+    assert.strictEqual(decodedResult.done, false, 'decodedResult.done');
+    const decodedText = new TextDecoder('ascii').decode(decodedResult.value);
+    assert.strictEqual(decodedText,'Lorem ipsum dolor sit amet, consectetur adipiscing elit. \n' +
+      'Sed do eiusmod tempor incididunt ut labore et dolore magna aliqua.\n', 'decoded text');
+    decodedResult = await reader.read();
+    assert.strictEqual(decodedResult.done, true, 'decodedResult.done');
+  });
+
+  it('Read gzip header', async () => {
+    const tokenizer = await makeFileTokenizer('simple.txt.gz');
+    try {
+      const header = await new GzipHandler(tokenizer).readHeader();
+      assert.strictEqual(header.filename, 'simple.txt', 'filename');
+      assert.strictEqual(header.mtime, 0x691cb85e, 'mtime');
+      assert.strictEqual(header.extraFlags, 0, 'extraFlags');
+      assert.strictEqual(header.os, 3, 'os');
+      assert.isFalse(header.text, 'text');
+      assert.isFalse(header.headerCrc, 'headerCrc');
+      assert.isUndefined(header.extra, 'extra');
+      assert.isUndefined(header.comment, 'comment');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it('Read gzip header with all optional fields', async () => {
+    const tokenizer = await makeNodeStreamTokenizer('gzip-header.txt.gz');
+    try {
+      const gzipHandler = new GzipHandler(tokenizer);
+      const header = await gzipHandler.readHeader();
+      assert.isTrue(header.text, 'text');
+      assert.isTrue(header.headerCrc, 'headerCrc');
+      assert.strictEqual(header.mtime, 1700000000, 'mtime');
+      assert.strictEqual(header.extraFlags, 2, 'extraFlags');
+      assert.strictEqual(header.os, 3, 'os');
+      assert.strictEqual(header.filename, 'café.txt', 'filename');
+      assert.strictEqual(header.comment, 'Header comment', 'comment');
+      assert.deepEqual(header.extra, [
+        {id: 'AB', data: Uint8Array.from([1, 2, 3])},
+        {id: 'Zx', data: new Uint8Array(0)}
+      ], 'extra');
+
+      // Inflate after reading the header
+      const data = new Uint8Array(await new Response(gzipHandler.inflate()).arrayBuffer());
+      assert.strictEqual(new TextDecoder().decode(data), 'Gzip member with all optional header fields\n');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it('Read gzip header with invalid signature', async () => {
+    const tokenizer = await makeFileTokenizer('fixture.zip');
+    try {
+      await new GzipHandler(tokenizer).readHeader();
+      assert.fail('Expected readHeader() to fail');
+    } catch (err) {
+      assert.match((err as Error).message, /Invalid gzip signature/);
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it('Inflate partial file', async () => {
+    const buf = Uint8Array.from([31, 139, 8, 8, 137, 83, 29, 82, 0, 11]);
+    const tokenizer = fromBuffer(buf);
+
+    try {
+      const gzipHandler = new GzipHandler(tokenizer);
+      const reader = gzipHandler.inflate().getReader();
+
+      let threw = false;
+      try {
+        await reader.read();
+      } catch (err) {
+        threw = true;
+
+        // Biome-friendly: treat err as unknown
+        const e = err as unknown;
+
+        if (!(e instanceof Error)) {
+          throw new Error(`Expected a decompression Error, got: ${String(e)}`);
+        }
+
+        // no message assertions (Node 20 sometimes returns an empty message)
+        assert.instanceOf(e, Error, 'expected a decompression error');
+      }
+
+      assert.isTrue(threw, 'expected reader.read() to throw for partial gzip');
+
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  async function inflateGzip(tokenizer: ITokenizer, options?: IGzipHandlerOptions): Promise<{text: string, members: IGzipMember[]}> {
+    try {
+      const gzipHandler = new GzipHandler(tokenizer, options);
+      const data = new Uint8Array(await new Response(gzipHandler.inflate()).arrayBuffer());
+      return {text: new TextDecoder().decode(data), members: gzipHandler.members};
+    } finally {
+      await tokenizer.close();
+    }
+  }
+
+  async function makeAlteredGzipTokenizer(fixture: string, offset: number): Promise<ITokenizer> {
+    const data = await readFile(join(fixturePath, fixture));
+    data[data.length + offset] ^= 0xFF;
+    return fromBuffer(new Uint8Array(data));
+  }
+
+  it('Inflate multi-member gzip file', async () => {
+    const {text, members} = await inflateGzip(await makeNodeStreamTokenizer('multi-member.txt.gz'));
+    assert.strictEqual(text, 'First member\nSecond member\n', 'inflated text');
+    assert.strictEqual(members.length, 2, 'number of members');
+
+    assert.strictEqual(members[0].header.filename, 'first.txt', 'members[0].header.filename');
+    assert.strictEqual(members[0].offset, 0, 'members[0].offset');
+    assert.strictEqual(members[0].compressedOffset, 20, 'members[0].compressedOffset');
+    assert.strictEqual(members[0].length, 43, 'members[0].length');
+    assert.strictEqual(members[0].compressedSize, 43 - 20 - 8, 'members[0].compressedSize');
+    assert.strictEqual(members[0].size, 13, 'members[0].size');
+
+    assert.strictEqual(members[1].header.filename, 'second.txt', 'members[1].header.filename');
+    assert.strictEqual(members[1].header.mtime, 1700000100, 'members[1].header.mtime');
+    assert.strictEqual(members[1].offset, 43, 'members[1].offset');
+    assert.strictEqual(members[1].length, 45, 'members[1].length');
+    assert.strictEqual(members[1].size, 14, 'members[1].size');
+  });
+
+  it('Inflate first member only', async () => {
+    const {text, members} = await inflateGzip(await makeFileTokenizer('multi-member.txt.gz'), {firstMemberOnly: true});
+    assert.strictEqual(text, 'First member\n', 'inflated text');
+    assert.strictEqual(members.length, 1, 'number of members');
+  });
+
+  it('Detect gzip CRC-32 mismatch', async () => {
+    try {
+      await inflateGzip(await makeAlteredGzipTokenizer('simple.txt.gz', -8));
+      assert.fail('Expected inflate to fail');
+    } catch (err) {
+      assert.instanceOf(err, Crc32MismatchError);
+      assert.strictEqual((err as Crc32MismatchError).filename, 'simple.txt', 'filename');
+    }
+  });
+
+  it('Detect gzip ISIZE mismatch', async () => {
+    try {
+      await inflateGzip(await makeAlteredGzipTokenizer('simple.txt.gz', -1));
+      assert.fail('Expected inflate to fail');
+    } catch (err) {
+      assert.match((err as Error).message, /Gzip member size mismatch/);
+    }
+  });
+
+  it('Ignore gzip CRC-32 mismatch, if verifyCrc is disabled', async () => {
+    const {members} = await inflateGzip(await makeAlteredGzipTokenizer('simple.txt.gz', -8), {verifyCrc: false});
+    assert.strictEqual(members.length, 1, 'number of members');
+  });
+
+  /**
+   * Count the native decoders created, while running the callback
+   */
+  async function countNativeDecoders(callback: () => Promise<void>): Promise<number> {
+    const decompressionStream = globalThis.DecompressionStream;
+    let count = 0;
+    globalThis.DecompressionStream = class extends decompressionStream {
+      constructor(format: CompressionFormat) {
+        super(format);
+        ++count;
+      }
+    };
+    try {
+      await callback();
+    } finally {
+      globalThis.DecompressionStream = decompressionStream;
+    }
+    return count;
+  }
+
+  it('Inflate a gzip member with the native decoder, with random-access', async () => {
+    let members: IGzipMember[] = [];
+    const count = await countNativeDecoders(async () => {
+      ({members} = await inflateGzip(await makeFileTokenizer('simple.txt.gz')));
+    });
+    assert.strictEqual(count, 1, 'native decoders');
+    assert.strictEqual(members.length, 1, 'number of members');
+    assert.strictEqual(members[0].offset + members[0].length, (await readFile(join(fixturePath, 'simple.txt.gz'))).length, 'end of member');
+  });
+
+  it('Inflate multi-member gzip file, with random-access', async () => {
+    const {text, members} = await inflateGzip(await makeFileTokenizer('multi-member.txt.gz'));
+    assert.strictEqual(text, 'First member\nSecond member\n', 'inflated text');
+    assert.deepEqual(members.map(member => [member.offset, member.compressedSize, member.length]), [[0, 15, 43], [43, 16, 45]], 'member boundaries');
+  });
+
+  it('Inflate BGZF members with the native decoder, using the block size', async () => {
+    let text = '';
+    let members: IGzipMember[] = [];
+    const count = await countNativeDecoders(async () => {
+      ({text, members} = await inflateGzip(await makeNodeStreamTokenizer('bgzf.txt.gz')));
+    });
+    assert.strictEqual(count, 3, 'native decoders');
+    assert.strictEqual(text, 'First BGZF block\nSecond BGZF block\n', 'inflated text');
+    assert.strictEqual(members.length, 3, 'number of members');
+  });
+
+  it('Inflate BGZF members with the built-in inflater, if selected', async () => {
+    let text = '';
+    const count = await countNativeDecoders(async () => {
+      ({text} = await inflateGzip(await makeNodeStreamTokenizer('bgzf.txt.gz'), {inflater: 'builtin'}));
+    });
+    assert.strictEqual(count, 0, 'native decoders');
+    assert.strictEqual(text, 'First BGZF block\nSecond BGZF block\n', 'inflated text');
+  });
+
+  it('Inflate small tar.gz file', async () => {
+    const tokenizer = await makeFileTokenizer('fixture-gnu.tgz');
+    try {
+      assert.isTrue(await isTarGz(tokenizer));
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it('Inflate large tar.gz file', async function () {
+    this.timeout(15000); // Increase timeout
+    const result = await fetch("https://cdn.kernel.org/pub/linux/kernel/v6.x/linux-6.7.12.tar.gz");
+    assert.ok(result.ok, 'HTTP request is ok');
+    if (result.body !== null) {
+      const tokenizer = fromWebStream(result.body);
+      try {
+        assert.isTrue(await isTarGz(tokenizer));
+      } finally {
+        await tokenizer.close();
+      }
+    } else {
+      assert.fail('Could not stream HTTP result');
+    }
+  });
+
+});
+
+describe('Untar', () => {
+
+  const longPath = 'very-long-directory-name-exceeding-the-limits-of-the-classic-tar-header/another-long-sub-directory-name/file-with-a-long-name.txt';
+
+  interface IUntarredEntry {
+    entry: ITarEntry;
+    data?: string;
+  }
+
+  async function untar(tokenizer: ITokenizer): Promise<IUntarredEntry[]> {
+    const entries: IUntarredEntry[] = [];
+    try {
+      await new TarHandler(tokenizer).untar(entry => {
+        const untarred: IUntarredEntry = {entry};
+        entries.push(untarred);
+        return {
+          handler: entry.type === TarEntryType.File ? async data => {
+            untarred.data = new TextDecoder().decode(data);
+          } : false
+        };
+      });
+    } finally {
+      await tokenizer.close();
+    }
+    return entries;
+  }
+
+  it('ustar', async () => {
+    const entries = await untar(await makeFileTokenizer('ustar.tar'));
+    assert.deepEqual(entries.map(e => e.entry.name), ['hello.txt', longPath, 'hardlink.txt']);
+
+    const hello = entries[0];
+    assert.strictEqual(hello.data, 'Hello tar\n', 'data');
+    assert.strictEqual(hello.entry.type, TarEntryType.File, 'type');
+    assert.strictEqual(hello.entry.size, 10, 'size');
+    assert.strictEqual(hello.entry.mode, 0o644, 'mode');
+    assert.strictEqual(hello.entry.uid, 1000, 'uid');
+    assert.strictEqual(hello.entry.uname, 'tester', 'uname');
+    assert.strictEqual(hello.entry.gname, 'testers', 'gname');
+    assert.strictEqual(hello.entry.mtime, 1700000000, 'mtime');
+    assert.isUndefined(hello.entry.pax, 'pax');
+
+    assert.strictEqual(entries[1].data, 'Long path\n', 'data of entry with prefix');
+
+    const hardLink = entries[2].entry;
+    assert.strictEqual(hardLink.type, TarEntryType.HardLink, 'type');
+    assert.strictEqual(hardLink.linkName, 'hello.txt', 'linkName');
+  });
+
+  it('GNU long names and long links', async () => {
+    const entries = await untar(await makeNodeStreamTokenizer('gnu-long-names.tar'));
+    assert.deepEqual(entries.map(e => e.entry.name), ['hello.txt', longPath, 'link-with-a-long-target', 'hardlink.txt']);
+    assert.strictEqual(entries[1].data, 'Long path\n', 'data of entry with long name');
+
+    const symbolicLink = entries[2].entry;
+    assert.strictEqual(symbolicLink.type, TarEntryType.SymbolicLink, 'type');
+    assert.strictEqual(symbolicLink.linkName, longPath, 'linkName');
+  });
+
+  it('PAX extended headers', async () => {
+    const entries = await untar(await makeWebStreamTokenizer('pax.tar'));
+    assert.deepEqual(entries.map(e => e.entry.name), ['hello.txt', 'grüße.txt', longPath, 'link-with-a-long-target']);
+    assert.strictEqual(entries[1].data, 'Grüße\n', 'data of entry with UTF-8 name');
+    assert.strictEqual(entries[1].entry.pax?.path, 'grüße.txt', 'PAX path');
+    assert.strictEqual(entries[2].data, 'Long path\n', 'data of entry with long path');
+
+    const symbolicLink = entries[3].entry;
+    assert.strictEqual(symbolicLink.type, TarEntryType.SymbolicLink, 'type');
+    assert.strictEqual(symbolicLink.linkName, longPath, 'linkName');
+  });
+
+  it('reject oversized metadata entries', async () => {
+    const data = new Uint8Array(await readFile(join(fixturePath, 'pax.tar')));
+    // Alter the size of the first PAX extended header, at 1024, and update the header checksum
+    const header = data.subarray(1024, 1536);
+    assert.strictEqual(String.fromCharCode(header[156]), 'x', 'PAX extended header');
+    header.set(new TextEncoder().encode('77777777777\0'), 124);
+    header.fill(0x20, 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.set(new TextEncoder().encode(`${checksum.toString(8).padStart(6, '0')}\0 `), 148);
+    const error = await untar(fromBuffer(data)).catch(err => err);
+    assert.instanceOf(error, TarFormatError);
+    assert.strictEqual(error.offset, 1024, 'offset');
+  });
+
+  it('tar.gz, chained after GzipHandler', async () => {
+    const tokenizer = await makeFileTokenizer('fixture-gnu.tgz');
+    try {
+      const entries = await untar(fromWebStream(new GzipHandler(tokenizer).inflate()));
+      assert.deepEqual(entries.map(e => e.entry.name), ['test/', 'test/README.txt']);
+      assert.strictEqual(entries[0].entry.type, TarEntryType.Directory, 'type');
+      assert.strictEqual(entries[1].data?.length, 65, 'length of README.txt');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it('stop after first entry, and stream the data', async () => {
+    const tokenizer = await makeFileTokenizer('ustar.tar');
+    try {
+      const names: string[] = [];
+      let data: string | undefined;
+      await new TarHandler(tokenizer).untar(entry => {
+        names.push(entry.name);
+        return {
+          streamHandler: async stream => {
+            data = await new Response(stream).text();
+          },
+          stop: true
+        };
+      });
+      assert.deepEqual(names, ['hello.txt']);
+      assert.strictEqual(data, 'Hello tar\n');
+    } finally {
+      await tokenizer.close();
+    }
+  });
+
+  it('isTar', async () => {
+    for (const fixture of ['ustar.tar', 'gnu-long-names.tar', 'pax.tar']) {
+      const tokenizer = await makeFileTokenizer(fixture);
+      try {
+        assert.isTrue(await new TarHandler(tokenizer).isTar(), fixture);
+      } finally {
+        await tokenizer.close();
+      }
+    }
+    const tokenizer = await makeFileTokenizer('fixture.zip');
+    try {
+      assert.isFalse(await new TarHandler(tokenizer).isTar(), 'fixture.zip');
+    } finally {
+      await tokenizer.close();
     }
   });
 